@@ -0,0 +1,8 @@
+/** @type {import('jest').Config} */
+module.exports = {
+    testEnvironment: 'jsdom',
+    roots: ['<rootDir>/src'],
+    transform: {
+        '^.+\\.tsx?$': 'ts-jest',
+    },
+};
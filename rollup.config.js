@@ -3,32 +3,90 @@ import commonjs from '@rollup/plugin-commonjs';
 import typescript from '@rollup/plugin-typescript';
 import peerDepsExternal from 'rollup-plugin-peer-deps-external';
 
-export default {
-    input: 'src/index.tsx',
-    output: [
-        {
-            file: 'dist/index.js',
-            format: 'cjs',
-            sourcemap: true,
-            exports: 'named',
-        },
-        {
-            file: 'dist/index.esm.js',
-            format: 'esm',
-            sourcemap: true,
-            exports: 'named',
-        },
-    ],
-    plugins: [
-        peerDepsExternal(),
-        resolve(),
-        commonjs(),
-        typescript({
-            tsconfig: './tsconfig.json',
-            declaration: true,
-            declarationDir: 'dist',
-            exclude: ['**/*.test.tsx', '**/*.test.ts', 'node_modules'],
-        }),
-    ],
-    external: ['react', 'react-dom'],
-};
\ No newline at end of file
+const isMainEntry = (id) => id === './index' || /[\\/]src[\\/]index$/.test(id);
+
+const plugins = () => [
+    peerDepsExternal(),
+    resolve(),
+    commonjs(),
+    typescript({
+        tsconfig: './tsconfig.json',
+        declaration: true,
+        declarationDir: 'dist',
+        exclude: ['**/*.test.tsx', '**/*.test.ts', 'node_modules'],
+    }),
+];
+
+const onwarn = (warning, warn) => {
+    // The directive is re-added to each bundle through `banner`.
+    if (warning.code === 'MODULE_LEVEL_DIRECTIVE') return;
+    warn(warning);
+};
+
+export default [
+    {
+        input: 'src/index.tsx',
+        output: [
+            {
+                file: 'dist/index.cjs',
+                format: 'cjs',
+                banner: "'use client';",
+                sourcemap: true,
+                exports: 'named',
+            },
+            {
+                file: 'dist/index.esm.js',
+                format: 'esm',
+                banner: "'use client';",
+                sourcemap: true,
+                exports: 'named',
+            },
+        ],
+        plugins: plugins(),
+        external: ['react', 'react-dom'],
+        onwarn,
+    },
+    {
+        // Helpers for Server Components, so this bundle has no 'use client' banner.
+        input: 'src/server.ts',
+        output: [
+            {
+                file: 'dist/server.cjs',
+                format: 'cjs',
+                sourcemap: true,
+                exports: 'named',
+            },
+            {
+                file: 'dist/server.esm.js',
+                format: 'esm',
+                sourcemap: true,
+                exports: 'named',
+            },
+        ],
+        plugins: plugins(),
+        onwarn,
+    },
+    {
+        // The testing helpers import the main bundle instead of inlining it, so they share its React context.
+        input: 'src/testing.tsx',
+        output: [
+            {
+                file: 'dist/testing.cjs',
+                format: 'cjs',
+                sourcemap: true,
+                exports: 'named',
+                paths: (id) => (isMainEntry(id) ? './index.cjs' : id),
+            },
+            {
+                file: 'dist/testing.esm.js',
+                format: 'esm',
+                sourcemap: true,
+                exports: 'named',
+                paths: (id) => (isMainEntry(id) ? './index.esm.js' : id),
+            },
+        ],
+        plugins: plugins(),
+        external: (id) => ['react', 'react-dom', 'react-dom/client', 'react-dom/test-utils'].includes(id) || isMainEntry(id),
+        onwarn,
+    },
+];
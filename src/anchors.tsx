@@ -0,0 +1,12 @@
+import React, { ReactElement } from 'react';
+import { ANCHOR_ATTRIBUTE } from './targets';
+
+export interface TourAnchorProps {
+    step: string;
+    children: ReactElement;
+}
+
+export const TourAnchor: React.FC<TourAnchorProps> = ({ step, children }) =>
+    React.cloneElement(React.Children.only(children) as ReactElement<Record<string, unknown>>, {
+        [ANCHOR_ATTRIBUTE]: step,
+    });
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { prefersReducedMotion } from './a11y';
+import { OnboardingBeaconSlot, beaconStylesheet, getSlotClassName } from './styles';
+import { vars } from './themes';
+import { trackPosition } from './tracking';
+import { DEFAULT_TARGET_TIMEOUT, OnboardingTarget, getUnionRect, watchTarget } from './targets';
+
+export interface TargetRect {
+    top: number;
+    left: number;
+    bottom: number;
+    right: number;
+    width: number;
+    height: number;
+}
+
+export const useTargetRect = (target: OnboardingTarget | undefined, timeout = DEFAULT_TARGET_TIMEOUT) => {
+    const [rect, setRect] = useState<TargetRect | null>(null);
+    const [visible, setVisible] = useState(true);
+    const targetKey = Array.isArray(target) ? target.join(',') : target;
+
+    useEffect(() => {
+        let stopTracking = () => {};
+
+        const stopWatching = watchTarget(
+            target,
+            timeout,
+            (elements) => {
+                stopTracking = trackPosition({
+                    targets: elements,
+                    tooltip: null,
+                    onUpdate: () => setRect(getUnionRect(elements)),
+                    onVisibilityChange: setVisible,
+                });
+            },
+            () => setRect(null)
+        );
+
+        return () => {
+            stopWatching();
+            stopTracking();
+        };
+    }, [targetKey, timeout]);
+
+    return visible ? rect : null;
+};
+
+const BEACON_SIZE = 24;
+const DOCK_OFFSET = '24px';
+
+interface BeaconProps {
+    target: OnboardingTarget | undefined;
+    label: string;
+    // Without a target on screen, sit in the bottom corner instead of disappearing
+    docked?: boolean;
+    onClick: () => void;
+    color?: string;
+    unstyled?: boolean;
+    classNames?: Partial<Record<OnboardingBeaconSlot, string>>;
+    styles?: Partial<Record<OnboardingBeaconSlot, React.CSSProperties>>;
+}
+
+export const Beacon: React.FC<BeaconProps> = ({
+    target,
+    label,
+    docked = false,
+    onClick,
+    color,
+    unstyled = false,
+    classNames,
+    styles,
+}) => {
+    const rect = useTargetRect(target);
+    const reducedMotion = prefersReducedMotion();
+
+    if (!rect && !docked) return null;
+
+    return (
+        <>
+            {!unstyled && <style>{beaconStylesheet}</style>}
+            <button
+                type="button"
+                aria-label={label}
+                onClick={onClick}
+                className={getSlotClassName('beacon', classNames)}
+                data-reduced-motion={reducedMotion || undefined}
+                style={
+                    {
+                        position: 'fixed',
+                        ...(rect
+                            ? { top: `${rect.top - BEACON_SIZE / 2}px`, left: `${rect.right - BEACON_SIZE / 2}px` }
+                            : { bottom: DOCK_OFFSET, insetInlineEnd: DOCK_OFFSET }),
+                        width: `${BEACON_SIZE}px`,
+                        height: `${BEACON_SIZE}px`,
+                        zIndex: vars.zIndex.tooltip,
+                        ...(color && { '--rcfs-beacon-color': color }),
+                        ...styles?.beacon,
+                    } as React.CSSProperties
+                }
+            >
+                <span className={getSlotClassName('beaconPulse', classNames)} style={styles?.beaconPulse} />
+                <span className={getSlotClassName('beaconDot', classNames)} style={styles?.beaconDot} />
+            </button>
+        </>
+    );
+};
@@ -0,0 +1,66 @@
+import type { OnboardingStep } from './onboarding';
+
+export type OnboardingStepRef = string | number;
+
+export const isStepEnabled = (step: OnboardingStep | undefined): boolean => {
+    return !!step && (!step.when || step.when());
+};
+
+export const findStepIndex = (steps: OnboardingStep[], ref: OnboardingStepRef): number => {
+    if (typeof ref === 'number') {
+        return ref >= 0 && ref < steps.length ? ref : -1;
+    }
+    return steps.findIndex((step) => step.id === ref);
+};
+
+const firstEnabledFrom = (steps: OnboardingStep[], index: number): number => {
+    for (let i = index; i >= 0 && i < steps.length; i++) {
+        if (isStepEnabled(steps[i])) return i;
+    }
+    return -1;
+};
+
+export const resolveFirstStep = (steps: OnboardingStep[]): number => {
+    return firstEnabledFrom(steps, 0);
+};
+
+export const resolveNextStep = (steps: OnboardingStep[], index: number): number => {
+    const step = steps[index];
+    if (!step) return -1;
+
+    const successor = typeof step.next === 'function' ? step.next() : step.next;
+    if (successor === undefined) {
+        return firstEnabledFrom(steps, index + 1);
+    }
+
+    const successorIndex = findStepIndex(steps, successor);
+    if (successorIndex === -1) {
+        console.warn(`Onboarding: Step "${successor}" not found`);
+        return -1;
+    }
+    return firstEnabledFrom(steps, successorIndex);
+};
+
+export const orderSteps = (steps: OnboardingStep[]): OnboardingStep[] =>
+    steps
+        .map((step, index) => ({ step, index, order: step.order ?? index }))
+        .sort((a, b) => a.order - b.order || a.index - b.index)
+        .map(({ step }) => step);
+
+export const resolvePath = (steps: OnboardingStep[], from: number): number[] => {
+    const path: number[] = [];
+    let index = from;
+
+    while (index !== -1 && !path.includes(index)) {
+        path.push(index);
+        index = resolveNextStep(steps, index);
+    }
+    return path;
+};
+
+// The steps a user passes on the way to `to` from the start, for tours that resume mid-way.
+export const resolveHistory = (steps: OnboardingStep[], to: number): number[] => {
+    const path = resolvePath(steps, resolveFirstStep(steps));
+    const position = path.indexOf(to);
+    return position === -1 ? [] : path.slice(0, position);
+};
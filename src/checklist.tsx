@@ -0,0 +1,256 @@
+import React, { ReactNode, useEffect, useId, useRef, useState } from 'react';
+import { visuallyHiddenStyle } from './a11y';
+import { OnboardingLocale, resolveLocale } from './locale';
+import { useOnboarding } from './onboarding';
+import { OnboardingPersistenceConfig, resolveAdapter } from './persistence';
+import { ThemeScope, useOnboardingTheme } from './scope';
+import {
+    OnboardingChecklistClassNames,
+    OnboardingChecklistSlot,
+    OnboardingChecklistStyles,
+    checklistStylesheet,
+    getSlotClassName,
+} from './styles';
+import { OnboardingThemeSetting, vars } from './themes';
+
+type ChecklistStorage = OnboardingPersistenceConfig['storage'];
+
+const CHECKLIST_EVENT = 'rc-first-steps:checklist';
+
+const getChecklistKey = (id: string) => `rc-first-steps:checklist:${id}`;
+
+export const isChecklistItemDone = async (id: string, storage?: ChecklistStorage): Promise<boolean> => {
+    try {
+        return (await resolveAdapter(storage).getItem(getChecklistKey(id))) === 'done';
+    } catch (error) {
+        console.warn(`Onboarding: Failed to load checklist item "${id}"`, error);
+        return false;
+    }
+};
+
+export const completeChecklistItem = async (id: string, storage?: ChecklistStorage): Promise<void> => {
+    try {
+        await resolveAdapter(storage).setItem(getChecklistKey(id), 'done');
+    } catch (error) {
+        console.warn(`Onboarding: Failed to save checklist item "${id}"`, error);
+    }
+    if (typeof document !== 'undefined') {
+        document.dispatchEvent(new CustomEvent(CHECKLIST_EVENT, { detail: { id, done: true } }));
+    }
+};
+
+export const resetChecklistItem = async (id: string, storage?: ChecklistStorage): Promise<void> => {
+    try {
+        await resolveAdapter(storage).removeItem(getChecklistKey(id));
+    } catch (error) {
+        console.warn(`Onboarding: Failed to reset checklist item "${id}"`, error);
+    }
+    if (typeof document !== 'undefined') {
+        document.dispatchEvent(new CustomEvent(CHECKLIST_EVENT, { detail: { id, done: false } }));
+    }
+};
+
+export interface OnboardingChecklistItem {
+    id: string;
+    title?: ReactNode;
+    description?: ReactNode;
+    tourId?: string;
+    completeOn?: string;
+    done?: boolean;
+}
+
+export interface TourChecklistProps {
+    items?: OnboardingChecklistItem[];
+    title?: ReactNode;
+    storage?: ChecklistStorage;
+    position?: 'bottom-right' | 'bottom-left';
+    defaultOpen?: boolean;
+    hideWhenComplete?: boolean;
+    locale?: Partial<OnboardingLocale>;
+    theme?: OnboardingThemeSetting;
+    unstyled?: boolean;
+    classNames?: OnboardingChecklistClassNames;
+    styles?: OnboardingChecklistStyles;
+    onItemComplete?: (id: string) => void;
+}
+
+const EDGE_OFFSET = '16px';
+
+export const TourChecklist: React.FC<TourChecklistProps> = ({
+    items: itemsProp,
+    title,
+    storage,
+    position = 'bottom-right',
+    defaultOpen = false,
+    hideWhenComplete = false,
+    locale: localeOverride,
+    theme: themeSetting,
+    unstyled = false,
+    classNames,
+    styles,
+    onItemComplete,
+}) => {
+    const { tours, controller, isActive, isTourCompleted, resume, start } = useOnboarding();
+    const [isOpen, setIsOpen] = useState(defaultOpen);
+    const [stored, setStored] = useState<Record<string, boolean> | null>(null);
+    const locale = resolveLocale(localeOverride);
+    const theme = useOnboardingTheme(themeSetting);
+    const panelId = useId();
+
+    const registry = controller.getTours();
+    const { persisted } = controller.getState();
+    const items: OnboardingChecklistItem[] = itemsProp ?? tours.map((tourId) => ({ id: tourId, tourId }));
+    const itemsKey = items.map((item) => `${item.id}:${item.completeOn ?? ''}`).join('|');
+
+    const getTourId = (item: OnboardingChecklistItem) =>
+        item.tourId ?? (registry[item.id] ? item.id : undefined);
+
+    const isDone = (item: OnboardingChecklistItem) => {
+        const tourId = getTourId(item);
+        return !!item.done || !!stored?.[item.id] || (!!tourId && isTourCompleted(tourId));
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all(items.map((item) => isChecklistItemDone(item.id, storage))).then((values) => {
+            if (cancelled) return;
+            setStored(items.reduce((done, item, index) => ({ ...done, [item.id]: values[index] }), {}));
+        });
+
+        const handleChange = (event: Event) => {
+            const { id, done } = (event as CustomEvent<{ id: string; done: boolean }>).detail;
+            setStored((current) => ({ ...current, [id]: done }));
+        };
+        const completers = items
+            .filter((item) => item.completeOn)
+            .map((item) => {
+                const handleEvent = () => {
+                    completeChecklistItem(item.id, storage);
+                };
+                document.addEventListener(item.completeOn as string, handleEvent);
+                return () => document.removeEventListener(item.completeOn as string, handleEvent);
+            });
+        document.addEventListener(CHECKLIST_EVENT, handleChange);
+
+        return () => {
+            cancelled = true;
+            document.removeEventListener(CHECKLIST_EVENT, handleChange);
+            completers.forEach((stop) => stop());
+        };
+    }, [itemsKey]);
+
+    const doneIds = stored ? items.filter(isDone).map((item) => item.id) : null;
+    const doneKey = doneIds?.join('|');
+    const doneRef = useRef<string[] | null>(null);
+
+    useEffect(() => {
+        if (!doneIds) return;
+        const previous = doneRef.current;
+        doneRef.current = doneIds;
+        if (!previous) return;
+        doneIds.filter((id) => previous.indexOf(id) === -1).forEach((id) => onItemComplete?.(id));
+    }, [doneKey]);
+
+    if (!stored || items.length === 0) return null;
+
+    const doneCount = doneIds?.length ?? 0;
+    const percent = Math.round((doneCount / items.length) * 100);
+    if (hideWhenComplete && doneCount === items.length) return null;
+
+    const handleStart = (tourId: string, done: boolean) => {
+        setIsOpen(false);
+        if (done) {
+            start(tourId);
+        } else {
+            resume(tourId);
+        }
+    };
+
+    const side = position === 'bottom-left' ? 'left' : 'right';
+    const heading = title ?? locale.checklist;
+    const slot = (name: OnboardingChecklistSlot) => ({
+        className: getSlotClassName(name, classNames),
+        style: styles?.[name],
+    });
+
+    return (
+        <ThemeScope theme={theme}>
+            {!unstyled && <style>{checklistStylesheet}</style>}
+            <div
+                dir={locale.dir}
+                data-position={position}
+                className={getSlotClassName('checklist', classNames)}
+                style={{
+                    position: 'fixed',
+                    bottom: EDGE_OFFSET,
+                    [side]: EDGE_OFFSET,
+                    zIndex: `calc(${vars.zIndex.overlay} - 1)`,
+                    ...styles?.checklist,
+                    ...(isActive && { display: 'none' }),
+                }}
+            >
+                {isOpen && (
+                    <div
+                        id={panelId}
+                        role="region"
+                        aria-label={typeof heading === 'string' ? heading : undefined}
+                        {...slot('checklistPanel')}
+                    >
+                        <h3 {...slot('checklistTitle')}>{heading}</h3>
+                        <div
+                            role="progressbar"
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={percent}
+                            {...slot('checklistProgress')}
+                        >
+                            <span style={{ display: 'block', height: '100%', width: `${percent}%` }} />
+                        </div>
+                        <ul {...slot('checklistItems')}>
+                            {items.map((item) => {
+                                const tourId = getTourId(item);
+                                const done = isDone(item);
+                                const inProgress = !!tourId && !done && (persisted[tourId]?.lastStep ?? 0) > 0;
+
+                                return (
+                                    <li key={item.id} data-done={done || undefined} {...slot('checklistItem')}>
+                                        <span aria-hidden="true" {...slot('checklistCheck')}>
+                                            {done ? '✓' : ''}
+                                        </span>
+                                        <div>
+                                            <div {...slot('checklistItemTitle')}>
+                                                {item.title ?? (tourId && registry[tourId]?.title) ?? item.id}
+                                                <span style={visuallyHiddenStyle}>{done ? ` (${locale.done})` : ''}</span>
+                                            </div>
+                                            {item.description && (
+                                                <div {...slot('checklistItemDescription')}>{item.description}</div>
+                                            )}
+                                        </div>
+                                        {tourId && registry[tourId] && (
+                                            <button
+                                                type="button"
+                                                onClick={() => handleStart(tourId, done)}
+                                                {...slot('checklistButton')}
+                                            >
+                                                {inProgress ? locale.resume : locale.start}
+                                            </button>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                )}
+                <button
+                    type="button"
+                    aria-expanded={isOpen}
+                    aria-controls={isOpen ? panelId : undefined}
+                    onClick={() => setIsOpen(!isOpen)}
+                    {...slot('checklistLauncher')}
+                >
+                    {heading} · {percent}%
+                </button>
+            </div>
+        </ThemeScope>
+    );
+};
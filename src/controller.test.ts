@@ -0,0 +1,296 @@
+import { createTour } from './controller';
+import { createMemoryAdapter } from './persistence';
+import type { OnboardingConfig } from './onboarding';
+
+const config: OnboardingConfig = {
+    steps: [
+        { id: 'welcome', title: 'Welcome', content: '...' },
+        { id: 'upload', title: 'Upload', content: '...' },
+        { id: 'share', title: 'Share', content: '...' },
+        { id: 'done', title: 'Done', content: '...' },
+    ],
+};
+
+describe('resume', () => {
+    it('rebuilds the path to the saved step', () => {
+        const tour = createTour(config, { initialState: { default: { lastStep: 2 } } });
+
+        tour.resume();
+        expect(tour.getState()).toMatchObject({ currentStep: 2, history: [0, 1] });
+
+        tour.back();
+        expect(tour.getState()).toMatchObject({ currentStep: 1, history: [0] });
+    });
+
+    it('follows branches when rebuilding the path', () => {
+        const tour = createTour(
+            {
+                steps: [
+                    { id: 'welcome', title: 'Welcome', content: '...', next: 'share' },
+                    { id: 'upload', title: 'Upload', content: '...' },
+                    { id: 'share', title: 'Share', content: '...' },
+                ],
+            },
+            { initialState: { default: { lastStep: 2 } } }
+        );
+
+        tour.resume();
+        expect(tour.getState().history).toEqual([0]);
+    });
+
+    it('starts from the first step without saved state', () => {
+        const tour = createTour(config);
+
+        tour.resume();
+        expect(tour.getState()).toMatchObject({ currentStep: 0, history: [] });
+    });
+});
+
+describe('goToStep', () => {
+    it('reports the jump as a step change', () => {
+        const tour = createTour(config);
+        const types: string[] = [];
+        tour.onEvent((event) => types.push(event.type));
+
+        tour.start();
+        tour.goToStep('share');
+        tour.goToStep('welcome');
+        expect(types).toEqual(['tour:start', 'step:next', 'step:back']);
+        expect(tour.getState()).toMatchObject({ currentStep: 0, history: [] });
+    });
+});
+
+describe('start', () => {
+    it('shows the first step again when the running tour is restarted', () => {
+        const tour = createTour(config);
+        const types: string[] = [];
+        tour.onEvent((event) => types.push(event.type));
+
+        tour.start();
+        tour.stepShown();
+        tour.start();
+        tour.stepShown();
+        expect(types).toEqual(['tour:start', 'step:show', 'tour:start', 'step:show']);
+        expect(tour.getState().runCount).toBe(2);
+    });
+});
+
+describe('createTour', () => {
+    const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it('walks forward and back through the steps', () => {
+        const tour = createTour(config);
+
+        tour.start();
+        expect(tour.getState()).toMatchObject({ isActive: true, activeTour: 'default', currentStep: 0 });
+        tour.next();
+        tour.next();
+        expect(tour.getState()).toMatchObject({ currentStep: 2, history: [0, 1] });
+        tour.back();
+        expect(tour.getState()).toMatchObject({ currentStep: 1, history: [0] });
+    });
+
+    it('ignores back on the first step', () => {
+        const tour = createTour(config);
+        const types: string[] = [];
+        tour.onEvent((event) => types.push(event.type));
+
+        tour.start();
+        tour.back();
+        expect(types).toEqual(['tour:start']);
+        expect(tour.getState().currentStep).toBe(0);
+    });
+
+    it('completes the tour after the last step', () => {
+        const tour = createTour(config);
+        const types: string[] = [];
+        tour.onEvent((event) => types.push(event.type));
+
+        tour.start();
+        [0, 1, 2, 3].forEach(() => tour.next());
+        expect(types).toEqual(['tour:start', 'step:next', 'step:next', 'step:next', 'step:next', 'tour:complete']);
+        expect(tour.getState()).toMatchObject({ isActive: false, activeTour: null, currentStep: 0 });
+        expect(tour.isTourCompleted('default')).toBe(true);
+    });
+
+    it('skips steps whose `when` is false', () => {
+        const tour = createTour({
+            steps: [
+                { title: 'One', content: '...' },
+                { title: 'Two', content: '...', when: () => false },
+                { title: 'Three', content: '...' },
+            ],
+        });
+
+        tour.start();
+        tour.next();
+        expect(tour.getState()).toMatchObject({ currentStep: 2, history: [0] });
+    });
+
+    it('records a skip with the step it happened on', () => {
+        const tour = createTour(config);
+        const events: Array<{ type: string; stepIndex: number }> = [];
+        tour.onEvent(({ type, stepIndex }) => events.push({ type, stepIndex }));
+
+        tour.start();
+        tour.next();
+        tour.skip();
+        expect(events[events.length - 1]).toEqual({ type: 'tour:skip', stepIndex: 1 });
+        expect(tour.getState().persisted.default).toMatchObject({ skipped: true, completed: false, lastStep: 1 });
+        expect(tour.getState().isActive).toBe(false);
+    });
+
+    it('stops without marking the tour completed or skipped', () => {
+        const tour = createTour(config);
+
+        tour.start();
+        tour.next();
+        tour.stop();
+        expect(tour.getState()).toMatchObject({ isActive: false, history: [] });
+        expect(tour.getState().persisted.default).toMatchObject({ completed: false, skipped: false, lastStep: 1 });
+    });
+
+    it('warns about tours that are not registered', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const tour = createTour(config);
+
+        tour.start('missing');
+        expect(tour.getState().isActive).toBe(false);
+        expect(warn).toHaveBeenCalledWith('Onboarding: Tour "missing" is not registered');
+        warn.mockRestore();
+    });
+
+    it('runs queued tours one after another', () => {
+        const tour = createTour(config, { tours: { billing: { steps: [{ title: 'Billing', content: '...' }] } } });
+
+        tour.queue('billing');
+        expect(tour.getState().activeTour).toBe('billing');
+        tour.queue('default');
+        expect(tour.getState().pendingTours).toEqual(['default']);
+
+        tour.next();
+        expect(tour.getState()).toMatchObject({ activeTour: 'default', currentStep: 0, pendingTours: [] });
+    });
+
+    it('starts autoplay tours playing', () => {
+        expect(createTour({ ...config, autoplay: true }).getState().isPlaying).toBe(false);
+
+        const tour = createTour({ ...config, autoplay: true });
+        tour.start();
+        expect(tour.getState().isPlaying).toBe(true);
+
+        const legacy = createTour({ ...config, continuous: true });
+        legacy.start();
+        expect(legacy.getState().isPlaying).toBe(true);
+    });
+
+    it('reports the time spent on a step', () => {
+        jest.useFakeTimers();
+        const tour = createTour(config);
+        const events: Array<{ type: string; timeOnStep: number }> = [];
+        tour.onEvent(({ type, timeOnStep }) => events.push({ type, timeOnStep }));
+
+        tour.start();
+        tour.stepShown();
+        jest.advanceTimersByTime(1500);
+        tour.next();
+        expect(events).toEqual([
+            { type: 'tour:start', timeOnStep: 0 },
+            { type: 'step:show', timeOnStep: 0 },
+            { type: 'step:next', timeOnStep: 1500 },
+        ]);
+        jest.useRealTimers();
+    });
+
+    it('reports a step once however often it is shown', () => {
+        const tour = createTour(config);
+        const onAfterShow = jest.fn();
+        tour.registerStep('default', { id: 'extra', title: 'Extra', content: '...', onAfterShow });
+        const types: string[] = [];
+        tour.onEvent((event) => types.push(event.type));
+
+        tour.start();
+        tour.goToStep('extra');
+        tour.stepShown();
+        tour.stepShown();
+        expect(types.filter((type) => type === 'step:show')).toHaveLength(1);
+        expect(onAfterShow).toHaveBeenCalledTimes(1);
+    });
+
+    it('notifies subscribers on every change', () => {
+        const tour = createTour(config);
+        const listener = jest.fn();
+        const unsubscribe = tour.subscribe(listener);
+
+        tour.start();
+        tour.next();
+        unsubscribe();
+        tour.next();
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('sorts registered steps by order and removes them again', () => {
+        const tour = createTour(config);
+        const unregister = tour.registerStep('default', { id: 'intro', order: -1, title: 'Intro', content: '...' });
+
+        expect(tour.getTours().default.steps.map((step) => step.id)).toEqual([
+            'intro',
+            'welcome',
+            'upload',
+            'share',
+            'done',
+        ]);
+        unregister();
+        expect(tour.getTours().default.steps).toHaveLength(4);
+    });
+
+    it('builds a tour from registered steps alone', () => {
+        const tour = createTour();
+        tour.registerStep('feature', { id: 'a', title: 'A', content: '...' });
+
+        tour.start('feature');
+        expect(tour.getState()).toMatchObject({ activeTour: 'feature', currentStep: 0 });
+    });
+
+    it('resets a tour to its first step', () => {
+        const tour = createTour(config);
+
+        tour.start();
+        tour.next();
+        tour.reset();
+        expect(tour.getState()).toMatchObject({ activeTour: 'default', currentStep: 0, history: [] });
+        expect(tour.getState().persisted.default?.lastStep).toBe(0);
+    });
+
+    it('saves progress to storage and loads it in a new controller', async () => {
+        const storage = createMemoryAdapter();
+        const persisted = { ...config, persistence: { tourId: 'first-run', storage } };
+
+        const first = createTour(persisted);
+        expect(first.isLoaded('default')).toBe(false);
+        await flushPromises();
+        expect(first.isLoaded('default')).toBe(true);
+        first.start();
+        first.next();
+        first.next();
+        expect(JSON.parse(storage.getItem('rc-first-steps:first-run') as string)).toMatchObject({ lastStep: 2 });
+
+        const second = createTour(persisted);
+        await flushPromises();
+        second.resume();
+        expect(second.getState()).toMatchObject({ currentStep: 2, history: [0, 1] });
+
+        second.reset();
+        expect(storage.getItem('rc-first-steps:first-run')).toBe(JSON.stringify(second.getState().persisted.default));
+    });
+
+    it('takes initial state without loading storage', () => {
+        const tour = createTour(
+            { ...config, persistence: { tourId: 'first-run', storage: createMemoryAdapter() } },
+            { initialState: { default: { completed: true } } }
+        );
+
+        expect(tour.isLoaded('default')).toBe(true);
+        expect(tour.isTourCompleted('default')).toBe(true);
+    });
+});
@@ -0,0 +1,454 @@
+import type { OnboardingConfig, OnboardingStep } from './onboarding';
+import {
+    OnboardingStepRef,
+    findStepIndex,
+    isStepEnabled,
+    orderSteps,
+    resolveFirstStep,
+    resolveHistory,
+    resolveNextStep,
+} from './branching';
+import { OnboardingEvent, OnboardingEventType } from './events';
+import { OnboardingPersistedState, clearTourState, loadTourState, saveTourState } from './persistence';
+import { TargetNotFoundAction } from './targets';
+
+export const DEFAULT_TOUR_ID = 'default';
+
+export interface OnboardingControllerState {
+    isActive: boolean;
+    activeTour: string | null;
+    currentStep: number;
+    history: number[];
+    // Bumped by every start, so restarting the tour on the step it already shows sets that step up again
+    runCount: number;
+    pendingTours: string[];
+    isPlaying: boolean;
+    isMinimized: boolean;
+    persisted: Record<string, OnboardingPersistedState | null>;
+}
+
+export interface OnboardingControllerOptions {
+    tours?: Record<string, OnboardingConfig>;
+    initialTour?: string;
+    initialState?: Record<string, Partial<OnboardingPersistedState>>;
+    onEvent?: (event: OnboardingEvent) => void;
+}
+
+export interface OnboardingController {
+    getState: () => OnboardingControllerState;
+    subscribe: (listener: () => void) => () => void;
+    onEvent: (listener: (event: OnboardingEvent) => void) => () => void;
+    getTours: () => Record<string, OnboardingConfig>;
+    start: (tourId?: string) => void;
+    stop: () => void;
+    next: () => void;
+    back: () => void;
+    goToStep: (step: OnboardingStepRef) => void;
+    skip: () => void;
+    queue: (tourId: string) => void;
+    resume: (tourId?: string) => void;
+    reset: (tourId?: string) => void;
+    play: () => void;
+    pause: () => void;
+    minimize: () => void;
+    restore: () => void;
+    registerTour: (tourId: string, config: OnboardingConfig) => () => void;
+    registerStep: (tourId: string, step: OnboardingStep) => () => void;
+    isTourCompleted: (tourId: string) => boolean;
+    isLoaded: (tourId: string) => boolean;
+    load: () => void;
+    stepShown: () => void;
+    targetNotFound: (step: OnboardingStep, index: number, action: TargetNotFoundAction) => void;
+    syncTours: (tours: Record<string, OnboardingConfig>) => void;
+}
+
+const normalizeInitialState = (initialState: OnboardingControllerOptions['initialState']) =>
+    Object.keys(initialState ?? {}).reduce<Record<string, OnboardingPersistedState>>(
+        (states, tourId) => ({
+            ...states,
+            [tourId]: { completed: false, skipped: false, lastStep: 0, updatedAt: 0, ...initialState?.[tourId] },
+        }),
+        {}
+    );
+
+const isSameTours = (a: Record<string, OnboardingConfig>, b: Record<string, OnboardingConfig>) => {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+export const createTour = (config?: OnboardingConfig, options: OnboardingControllerOptions = {}): OnboardingController => {
+    const listeners = new Set<() => void>();
+    const eventListeners = new Set<(event: OnboardingEvent) => void>();
+    const loading = new Set<string>();
+
+    let registeredTours: Record<string, OnboardingConfig> = {
+        ...options.tours,
+        ...(config ? { [DEFAULT_TOUR_ID]: config } : {}),
+    };
+    let registeredSteps: Record<string, OnboardingStep[]> = {};
+    let syncedTours: Record<string, OnboardingConfig> = {};
+    let tours: Record<string, OnboardingConfig> | null = null;
+    let stepShownAt: number | null = null;
+
+    let state: OnboardingControllerState = {
+        isActive: false,
+        activeTour: null,
+        currentStep: 0,
+        history: [],
+        runCount: 0,
+        pendingTours: [],
+        isPlaying: false,
+        isMinimized: false,
+        persisted: normalizeInitialState(options.initialState),
+    };
+
+    if (options.onEvent) {
+        eventListeners.add(options.onEvent);
+    }
+
+    const getTours = () => {
+        if (!tours) {
+            const merged: Record<string, OnboardingConfig> = { ...registeredTours, ...syncedTours };
+            Object.keys(registeredSteps).forEach((tourId) => {
+                const tourConfig = merged[tourId] ?? { steps: [] };
+                merged[tourId] = {
+                    ...tourConfig,
+                    steps: orderSteps([...tourConfig.steps, ...registeredSteps[tourId]]),
+                };
+            });
+            tours = merged;
+        }
+        return tours;
+    };
+
+    const getDefaultTour = (): string | undefined => {
+        const ids = Object.keys(getTours());
+        return options.initialTour ?? (ids.indexOf(DEFAULT_TOUR_ID) !== -1 ? DEFAULT_TOUR_ID : ids[0]);
+    };
+
+    const resolveTourId = (tourId?: unknown) =>
+        typeof tourId === 'string' ? tourId : state.activeTour ?? getDefaultTour();
+
+    const isLoaded = (tourId: string) => !getTours()[tourId]?.persistence || tourId in state.persisted;
+
+    const writeState = (tourId: string, patch: Partial<OnboardingPersistedState>): OnboardingPersistedState => {
+        const nextState: OnboardingPersistedState = {
+            completed: false,
+            skipped: false,
+            lastStep: 0,
+            ...state.persisted[tourId],
+            ...patch,
+            updatedAt: Date.now(),
+        };
+        const persistence = getTours()[tourId]?.persistence;
+        if (persistence) {
+            saveTourState(persistence, nextState);
+        }
+        return nextState;
+    };
+
+    const persist = (tourId: string, patch: Partial<OnboardingPersistedState>) => ({
+        ...state.persisted,
+        [tourId]: writeState(tourId, patch),
+    });
+
+    const update = (patch: Partial<OnboardingControllerState>) => {
+        const previous = state;
+        state = { ...state, ...patch };
+        state.isActive = state.activeTour !== null;
+
+        const { activeTour, currentStep } = state;
+        if (activeTour !== previous.activeTour || currentStep !== previous.currentStep) {
+            stepShownAt = null;
+        }
+        if (activeTour !== null && isLoaded(activeTour) && state.persisted[activeTour]?.lastStep !== currentStep) {
+            state.persisted = persist(activeTour, { lastStep: currentStep });
+        }
+        listeners.forEach((listener) => listener());
+    };
+
+    const emit = (
+        type: Exclude<OnboardingEventType, 'target:not-found'>,
+        tourId: string | null = state.activeTour,
+        stepIndex = state.currentStep
+    ) => {
+        if (tourId === null) return;
+        const timestamp = Date.now();
+        const event: OnboardingEvent = {
+            type,
+            tourId,
+            stepIndex,
+            step: getTours()[tourId]?.steps[stepIndex],
+            timestamp,
+            timeOnStep: stepShownAt === null ? 0 : timestamp - stepShownAt,
+        };
+        eventListeners.forEach((listener) => listener(event));
+    };
+
+    const clampStep = (tourId: string, step: number) =>
+        Math.min(Math.max(step, 0), (getTours()[tourId]?.steps.length ?? 1) - 1);
+
+    const beginTour = (tourId: string | null, step?: number, patch: Partial<OnboardingControllerState> = {}) => {
+        const reset = { history: [], isPlaying: false, isMinimized: false, ...patch };
+        if (tourId === null) {
+            update({ ...reset, activeTour: null, currentStep: 0 });
+            return;
+        }
+
+        const tourConfig = getTours()[tourId];
+        const steps = tourConfig?.steps ?? [];
+        const firstStep = step !== undefined && isStepEnabled(steps[step]) ? step : resolveFirstStep(steps);
+        if (firstStep === -1) {
+            console.warn(`Onboarding: Tour "${tourId}" has no enabled steps`);
+            update({ ...reset, activeTour: null, currentStep: 0 });
+            return;
+        }
+        stepShownAt = null;
+        update({
+            ...reset,
+            activeTour: tourId,
+            currentStep: firstStep,
+            runCount: state.runCount + 1,
+            isPlaying: !!(tourConfig?.autoplay ?? tourConfig?.continuous),
+        });
+        emit('tour:start');
+    };
+
+    const finishTour = (patch: Partial<OnboardingControllerState>) => {
+        const [nextTour, ...rest] = state.pendingTours;
+        beginTour(nextTour ?? null, undefined, { ...patch, pendingTours: rest });
+    };
+
+    const start = (tourId?: string) => {
+        const id = resolveTourId(tourId);
+        if (!id || !getTours()[id]) {
+            console.warn(`Onboarding: Tour "${id}" is not registered`);
+            return;
+        }
+        beginTour(id);
+    };
+
+    const stop = () => {
+        emit('tour:stop');
+        update({ activeTour: null, currentStep: 0, history: [], isPlaying: false, isMinimized: false });
+    };
+
+    const next = () => {
+        const { activeTour, currentStep, history } = state;
+        const activeConfig = activeTour !== null ? getTours()[activeTour] : undefined;
+        if (activeTour === null || !activeConfig) return;
+
+        emit('step:next');
+        const nextStep = resolveNextStep(activeConfig.steps, currentStep);
+        if (nextStep !== -1) {
+            update({ history: [...history, currentStep], currentStep: nextStep });
+        } else {
+            emit('tour:complete');
+            finishTour({ persisted: persist(activeTour, { completed: true, lastStep: currentStep }) });
+        }
+    };
+
+    const back = () => {
+        const { history } = state;
+        if (history.length > 0) {
+            emit('step:back');
+            update({ currentStep: history[history.length - 1], history: history.slice(0, -1) });
+        }
+    };
+
+    const goToStep = (step: OnboardingStepRef) => {
+        const { activeTour, currentStep, history } = state;
+        const activeConfig = activeTour !== null ? getTours()[activeTour] : undefined;
+        if (!activeConfig) return;
+
+        const index = findStepIndex(activeConfig.steps, step);
+        if (index === -1 || !isStepEnabled(activeConfig.steps[index])) {
+            console.warn(`Onboarding: Step "${step}" not found or disabled`);
+            return;
+        }
+        if (index === currentStep) return;
+
+        // Jumping back to a visited step rewinds the path instead of extending it.
+        const visited = history.indexOf(index);
+        emit(visited === -1 ? 'step:next' : 'step:back');
+        update({
+            history: visited === -1 ? [...history, currentStep] : history.slice(0, visited),
+            currentStep: index,
+        });
+    };
+
+    const skip = () => {
+        const { activeTour, currentStep } = state;
+        if (activeTour === null) return;
+        emit('tour:skip');
+        finishTour({ persisted: persist(activeTour, { skipped: true, lastStep: currentStep }) });
+    };
+
+    const queue = (tourId: string) => {
+        if (!getTours()[tourId]) {
+            console.warn(`Onboarding: Tour "${tourId}" is not registered`);
+            return;
+        }
+        if (state.activeTour === null) {
+            start(tourId);
+        } else {
+            update({ pendingTours: [...state.pendingTours, tourId] });
+        }
+    };
+
+    const resume = (tourId?: string) => {
+        const id = resolveTourId(tourId);
+        if (!id || !getTours()[id]) return;
+        const saved = state.persisted[id];
+        if (!saved) {
+            beginTour(id);
+            return;
+        }
+        // Rebuild the path to the saved step so Back and the progress count pick up where the user left.
+        const step = clampStep(id, saved.lastStep);
+        beginTour(id, step, { history: resolveHistory(getTours()[id].steps, step) });
+    };
+
+    const reset = (tourId?: string) => {
+        const id = resolveTourId(tourId);
+        if (!id) return;
+
+        const persistence = getTours()[id]?.persistence;
+        if (persistence) {
+            clearTourState(persistence);
+        }
+
+        const persisted = { ...state.persisted, [id]: null };
+        if (id === state.activeTour) {
+            beginTour(id, undefined, { persisted });
+        } else {
+            update({ persisted });
+        }
+    };
+
+    const load = () => {
+        const current = getTours();
+        Object.keys(current).forEach((id) => {
+            const persistence = current[id].persistence;
+            if (!persistence || id in state.persisted || loading.has(id)) return;
+
+            loading.add(id);
+            loadTourState(persistence).then((saved) => {
+                loading.delete(id);
+                if (id in state.persisted) return;
+                update({ persisted: { ...state.persisted, [id]: saved } });
+            });
+        });
+    };
+
+    const invalidate = () => {
+        tours = null;
+        load();
+        update({});
+    };
+
+    const registerTour = (tourId: string, tourConfig: OnboardingConfig) => {
+        registeredTours = { ...registeredTours, [tourId]: tourConfig };
+        invalidate();
+        return () => {
+            if (registeredTours[tourId] !== tourConfig) return;
+            const rest = { ...registeredTours };
+            delete rest[tourId];
+            registeredTours = rest;
+            invalidate();
+        };
+    };
+
+    const registerStep = (tourId: string, step: OnboardingStep) => {
+        registeredSteps = {
+            ...registeredSteps,
+            [tourId]: [...(registeredSteps[tourId] ?? []).filter((existing) => existing.id !== step.id), step],
+        };
+        invalidate();
+        return () => {
+            const remaining = (registeredSteps[tourId] ?? []).filter((existing) => existing !== step);
+            const rest = { ...registeredSteps };
+            if (remaining.length > 0) {
+                rest[tourId] = remaining;
+            } else {
+                delete rest[tourId];
+            }
+            registeredSteps = rest;
+            invalidate();
+        };
+    };
+
+    const stepShown = () => {
+        const { activeTour, currentStep } = state;
+        // Cleared on every step change, so re-renders of the same step don't report it twice.
+        if (stepShownAt !== null) return;
+        const step = activeTour !== null ? getTours()[activeTour]?.steps[currentStep] : undefined;
+        stepShownAt = Date.now();
+        emit('step:show');
+        step?.onAfterShow?.(step, currentStep);
+    };
+
+    const targetNotFound = (step: OnboardingStep, index: number, action: TargetNotFoundAction) => {
+        if (state.activeTour === null) return;
+        const event: OnboardingEvent = {
+            type: 'target:not-found',
+            action,
+            tourId: state.activeTour,
+            stepIndex: index,
+            step,
+            timestamp: Date.now(),
+            timeOnStep: 0,
+        };
+        eventListeners.forEach((listener) => listener(event));
+    };
+
+    // Tours owned by a host such as OnboardingProvider. They are re-synced on every render, so this
+    // doesn't notify subscribers; the host is already re-rendering with them.
+    const syncTours = (nextTours: Record<string, OnboardingConfig>) => {
+        if (isSameTours(syncedTours, nextTours)) return;
+        syncedTours = nextTours;
+        tours = null;
+    };
+
+    if (config?.persistence || Object.keys(registeredTours).some((id) => registeredTours[id].persistence)) {
+        load();
+    }
+
+    return {
+        getState: () => state,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        onEvent: (listener) => {
+            eventListeners.add(listener);
+            return () => {
+                eventListeners.delete(listener);
+            };
+        },
+        getTours,
+        start,
+        stop,
+        next,
+        back,
+        goToStep,
+        skip,
+        queue,
+        resume,
+        reset,
+        play: () => update({ isPlaying: true }),
+        pause: () => update({ isPlaying: false }),
+        minimize: () => update({ isMinimized: true }),
+        restore: () => update({ isMinimized: false }),
+        registerTour,
+        registerStep,
+        isTourCompleted: (tourId) => !!state.persisted[tourId]?.completed,
+        isLoaded,
+        load,
+        stepShown,
+        targetNotFound,
+        syncTours,
+    };
+};
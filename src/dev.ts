@@ -0,0 +1,38 @@
+import type { OnboardingStep } from './onboarding';
+import { describeTarget, findTargets, getStepTarget } from './targets';
+
+// Spelled out in full so bundlers can replace `process.env.NODE_ENV` and drop dev-only checks
+export const isDevelopment = () => {
+    try {
+        return process.env.NODE_ENV !== 'production';
+    } catch {
+        return false;
+    }
+};
+
+export interface OnboardingMissingTarget {
+    index: number;
+    step: OnboardingStep;
+    target: string;
+}
+
+export const findMissingTargets = (
+    steps: OnboardingStep[],
+    isOnPage: (step: OnboardingStep) => boolean = () => true
+): OnboardingMissingTarget[] =>
+    steps.reduce<OnboardingMissingTarget[]>((missing, step, index) => {
+        const target = getStepTarget(step);
+        if (target === undefined || step.onBeforeShow || !isOnPage(step) || findTargets(target)) {
+            return missing;
+        }
+        return [...missing, { index, step, target: describeTarget(target) }];
+    }, []);
+
+export const reportMissingTargets = (tourId: string, missing: OnboardingMissingTarget[]) => {
+    if (missing.length === 0) return;
+
+    const lines = missing.map(
+        ({ index, step, target }) => `  - steps[${index}]${step.id ? ` (${step.id})` : ''}: ${target}`
+    );
+    console.warn(`Onboarding: Tour "${tourId}" started with missing targets:\n${lines.join('\n')}`);
+};
@@ -0,0 +1,24 @@
+import type { OnboardingStep } from './onboarding';
+import type { TargetNotFoundAction } from './targets';
+
+export type OnboardingEventType =
+    | 'tour:start'
+    | 'step:show'
+    | 'step:next'
+    | 'step:back'
+    | 'target:not-found'
+    | 'tour:skip'
+    | 'tour:stop'
+    | 'tour:complete';
+
+interface OnboardingEventBase {
+    tourId: string;
+    stepIndex: number;
+    step: OnboardingStep | undefined;
+    timestamp: number;
+    timeOnStep: number;
+}
+
+export type OnboardingEvent =
+    | (OnboardingEventBase & { type: Exclude<OnboardingEventType, 'target:not-found'> })
+    | (OnboardingEventBase & { type: 'target:not-found'; action: TargetNotFoundAction });
@@ -0,0 +1,462 @@
+import React, { createContext, useContext, useEffect, useId, useRef, useState } from 'react';
+import { isEditableElement, prefersReducedMotion, trapFocus } from './a11y';
+import { OnboardingStepRef } from './branching';
+import { DEFAULT_HINT_DELAY, watchAdvanceTrigger } from './interactions';
+import { OnboardingLocale, defaultLocale, mirrorPlacement, resolveLocale } from './locale';
+import type { OnboardingConfig, OnboardingProgress, OnboardingStep } from './onboarding';
+import { OnboardingSheetEdge, getSheetEdge, getSheetStyle, resolveMobileOptions, useMobileMode, watchSwipe } from './mobile';
+import { OnboardingPlacementVariant, computePosition } from './positioning';
+import { SpotlightHole, getSpotlightHole } from './spotlight';
+import { OnboardingTheme, vars } from './themes';
+import { AUTOPLAY_TICK, DEFAULT_AUTOPLAY_DURATION, lockScroll, watchIdle, watchInteraction } from './timing';
+import { getElementRect, getViewportBounds, scrollIntoView, trackPosition } from './tracking';
+import { DEFAULT_TARGET_TIMEOUT, TargetNotFoundAction, getStepTarget, getUnionRect, watchTarget } from './targets';
+
+export interface ActiveTour {
+    tourId: string;
+    config: OnboardingConfig;
+    theme: OnboardingTheme;
+    currentStep: number;
+    runCount: number;
+    progress: OnboardingProgress;
+    isFirst: boolean;
+    isLast: boolean;
+    isPlaying: boolean;
+    onNext: () => void;
+    onGoTo: (step: OnboardingStepRef) => void;
+    onBack: () => void;
+    onSkip: () => void;
+    onStop: () => void;
+    onStepShown: () => void;
+    onIdle: () => void;
+    onTargetNotFound: (step: OnboardingStep, index: number, action: TargetNotFoundAction) => void;
+}
+
+export const ActiveTourContext = createContext<ActiveTour | null>(null);
+
+export interface OnboardingTourState {
+    isActive: boolean;
+    tourId: string | null;
+    step: OnboardingStep | null;
+    index: number;
+    progress: OnboardingProgress;
+    isFirst: boolean;
+    isLast: boolean;
+    locale: OnboardingLocale;
+    placement: OnboardingPlacementVariant;
+    isCentered: boolean;
+    isMobile: boolean;
+    sheet: OnboardingSheetEdge | null;
+    targetVisible: boolean;
+    holes: SpotlightHole[];
+    tooltipRef: React.RefObject<HTMLDivElement | null>;
+    tooltipStyle: React.CSSProperties;
+    arrowStyle: React.CSSProperties;
+    titleId: string;
+    contentId: string;
+    announcement: string;
+    reducedMotion: boolean;
+    nextButton: 'hidden' | 'disabled' | 'enabled';
+    canAdvance: boolean;
+    showHint: boolean;
+    autoplayProgress: number | null;
+    next: () => void;
+    back: () => void;
+    skip: () => void;
+    stop: () => void;
+    goTo: (step: OnboardingStepRef) => void;
+    overlayClick: () => void;
+}
+
+const noop = () => {};
+
+export const useTourStep = (tour: ActiveTour | null): OnboardingTourState => {
+    const [tooltipStyle, setTooltipStyle] = useState<React.CSSProperties>({});
+    const [holes, setHoles] = useState<SpotlightHole[]>([]);
+    const [arrowStyle, setArrowStyle] = useState<React.CSSProperties>({});
+    const [isCentered, setIsCentered] = useState(false);
+    const [sheet, setSheet] = useState<OnboardingSheetEdge | null>(null);
+    const [placement, setPlacement] = useState<OnboardingPlacementVariant>('bottom');
+    const [targetVisible, setTargetVisible] = useState(true);
+    const [advanced, setAdvanced] = useState(false);
+    const [showHint, setShowHint] = useState(false);
+    const [elapsed, setElapsed] = useState(0);
+    const [interacting, setInteracting] = useState(false);
+    const tooltipRef = useRef<HTMLDivElement>(null);
+
+    const config = tour?.config;
+    const currentStep = tour?.currentStep ?? 0;
+    const runCount = tour?.runCount ?? 0;
+    const step = config?.steps[currentStep] ?? null;
+    const locale = config ? resolveLocale(config.locale, step?.locale) : defaultLocale;
+    const isRtl = locale.dir === 'rtl';
+    const accessible = !!tour && config?.accessible !== false;
+    const reducedMotion = accessible && prefersReducedMotion();
+    const mobileOptions = resolveMobileOptions(config?.mobile);
+    const isMobile = useMobileMode(mobileOptions);
+    const swipe = isMobile && mobileOptions?.swipe !== false;
+    const idPrefix = useId();
+    const titleId = `${idPrefix}-title`;
+    const contentId = `${idPrefix}-content`;
+
+    const onNext = tour?.onNext ?? noop;
+    const onBack = tour?.onBack ?? noop;
+    const onSkip = tour?.onSkip ?? noop;
+    const progress = tour?.progress ?? { current: 0, total: 0 };
+
+    const advanceOn = step?.advanceOn;
+    const nextButton = advanceOn && !advanced ? advanceOn.nextButton ?? 'hidden' : 'enabled';
+    const nextBlocked = nextButton !== 'enabled';
+
+    const autoplayDuration = step?.duration ?? config?.autoplayDuration ?? DEFAULT_AUTOPLAY_DURATION;
+    const autoplaying = !!tour?.isPlaying && !nextBlocked;
+    const autoplayRunning = autoplaying && !interacting;
+
+    // Positioning reads the latest tour and step, but only a new step or a restart re-runs onBeforeShow and step:show.
+    const latestRef = useRef({ tour, config, step, locale });
+    latestRef.current = { tour, config, step, locale };
+
+    const handlersRef = useRef({ onNext, onBack, onSkip, isRtl, nextBlocked });
+    handlersRef.current = { onNext, onBack, onSkip, isRtl, nextBlocked };
+
+    useEffect(() => {
+        setAdvanced(false);
+        setShowHint(false);
+        if (!advanceOn?.hint) return;
+
+        const hintTimeout = setTimeout(() => setShowHint(true), advanceOn.hintDelay ?? DEFAULT_HINT_DELAY);
+        return () => clearTimeout(hintTimeout);
+    }, [currentStep, runCount, advanceOn]);
+
+    useEffect(() => {
+        setElapsed(0);
+    }, [tour?.tourId, currentStep, runCount]);
+
+    useEffect(() => {
+        if (!autoplayRunning) return;
+
+        let last = Date.now();
+        const interval = setInterval(() => {
+            const now = Date.now();
+            const delta = now - last;
+            last = now;
+            setElapsed((current) => Math.min(current + delta, autoplayDuration));
+        }, AUTOPLAY_TICK);
+        return () => clearInterval(interval);
+    }, [autoplayRunning, autoplayDuration, currentStep]);
+
+    useEffect(() => {
+        if (autoplaying && elapsed >= autoplayDuration) {
+            handlersRef.current.onNext();
+        }
+    }, [elapsed, autoplaying]);
+
+    const isActive = !!step;
+
+    useEffect(() => {
+        if (!isActive) return;
+        return watchInteraction(tooltipRef.current, setInteracting);
+    }, [isActive]);
+
+    const idleTimeout = config?.idleTimeout;
+
+    useEffect(() => {
+        if (!isActive || !idleTimeout) return;
+        return watchIdle(tooltipRef.current, idleTimeout, () => tour?.onIdle());
+    }, [isActive, idleTimeout, currentStep, runCount]);
+
+    useEffect(() => {
+        if (!isActive || !swipe) return;
+        return watchSwipe(tooltipRef.current, (direction) => {
+            const { onNext, onBack, isRtl, nextBlocked } = handlersRef.current;
+            if ((direction === 'left') !== isRtl) {
+                if (!nextBlocked) onNext();
+            } else {
+                onBack();
+            }
+        });
+    }, [isActive, swipe]);
+
+    useEffect(() => {
+        if (!isActive || !config?.disableScrolling) return;
+        return lockScroll();
+    }, [isActive, config?.disableScrolling]);
+
+    useEffect(() => {
+        if (!accessible) return;
+
+        const previouslyFocused = document.activeElement as HTMLElement | null;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const tooltip = tooltipRef.current;
+            if (!tooltip) return;
+
+            if (event.key === 'Tab') {
+                trapFocus(event, tooltip);
+                return;
+            }
+            if (isEditableElement(event.target)) return;
+
+            const goNext = () => {
+                if (!handlersRef.current.nextBlocked) {
+                    handlersRef.current.onNext();
+                }
+            };
+
+            switch (event.key) {
+                case 'Escape':
+                    event.preventDefault();
+                    handlersRef.current.onSkip();
+                    break;
+                case 'ArrowLeft':
+                    event.preventDefault();
+                    if (handlersRef.current.isRtl) {
+                        goNext();
+                    } else {
+                        handlersRef.current.onBack();
+                    }
+                    break;
+                case 'ArrowRight':
+                    event.preventDefault();
+                    if (handlersRef.current.isRtl) {
+                        handlersRef.current.onBack();
+                    } else {
+                        goNext();
+                    }
+                    break;
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+            previouslyFocused?.focus?.({ preventScroll: true });
+        };
+    }, [accessible]);
+
+    useEffect(() => {
+        if (accessible) {
+            tooltipRef.current?.focus({ preventScroll: true });
+        }
+    }, [accessible, currentStep]);
+
+    useEffect(() => {
+        if (!tour || !config || !step) return;
+
+        let targets: HTMLElement[] = [];
+        let cancelled = false;
+        let shown = false;
+        let stopWatching = () => {};
+        let stopTracking = () => {};
+        let stopTrigger = () => {};
+
+        const markShown = () => {
+            if (shown || cancelled) return;
+            shown = true;
+            tour.onStepShown();
+        };
+
+        const updatePosition = () => {
+            const { tour, config, step, locale } = latestRef.current;
+            if (!tour || !config || !step || targets.length === 0 || !tooltipRef.current) return;
+
+            const rect = getUnionRect(targets);
+
+            setHoles(
+                targets.map((element) =>
+                    getSpotlightHole(
+                        getElementRect(element),
+                        step.spotlightPadding ?? config.spotlightPadding,
+                        step.spotlightShape ?? config.spotlightShape,
+                        config.spotlightRadius ?? tour.theme.radii.spotlight
+                    )
+                )
+            );
+
+            if (isMobile) {
+                const viewport = getViewportBounds();
+                const edge = getSheetEdge(rect, viewport);
+                setTooltipStyle({ ...getSheetStyle(edge, viewport), zIndex: vars.zIndex.tooltip, opacity: 1 });
+                setArrowStyle({});
+                setSheet(edge);
+                setIsCentered(false);
+                markShown();
+                return;
+            }
+
+            const tooltipRect = tooltipRef.current.getBoundingClientRect();
+            const position = computePosition({
+                target: rect,
+                tooltip: { width: tooltipRect.width, height: tooltipRect.height },
+                viewport: { width: window.innerWidth, height: window.innerHeight },
+                placement: mirrorPlacement(step.placement || 'auto', locale.dir),
+                offset: step.offset ?? config.offset,
+            });
+
+            setTooltipStyle({
+                position: 'fixed',
+                top: `${position.top}px`,
+                left: `${position.left}px`,
+                zIndex: vars.zIndex.tooltip,
+                opacity: 1,
+            });
+            setArrowStyle({
+                position: 'absolute',
+                top: `${position.arrow.top}px`,
+                left: `${position.arrow.left}px`,
+                transform: `rotate(${position.arrow.rotation}deg)`,
+            });
+            setPlacement(position.placement);
+            setSheet(null);
+            setIsCentered(false);
+            markShown();
+        };
+
+        const showCentered = () => {
+            setHoles([]);
+            setIsCentered(true);
+            setTargetVisible(true);
+            setSheet(isMobile ? 'bottom' : null);
+            setTooltipStyle({
+                ...(isMobile
+                    ? getSheetStyle('bottom', getViewportBounds())
+                    : { position: 'fixed', top: '50%', left: '50%', transform: 'translate(-50%, -50%)' }),
+                zIndex: vars.zIndex.tooltip,
+                opacity: 1,
+            });
+            markShown();
+        };
+
+        const handleTargetNotFound = () => {
+            const action = step.targetNotFoundAction || config.targetNotFoundAction || 'center';
+
+            tour.onTargetNotFound(step, currentStep, action);
+
+            switch (action) {
+                case 'skip':
+                    tour.onNext();
+                    break;
+                case 'stop':
+                    tour.onStop();
+                    break;
+                case 'center':
+                    showCentered();
+                    break;
+            }
+        };
+
+        const handleTargetFound = (elements: HTMLElement[]) => {
+            targets = elements;
+
+            if (config.scrollToSteps) {
+                scrollIntoView(elements[0], config.scrollOffset || 100, reducedMotion ? 'auto' : 'smooth');
+            }
+
+            stopTracking = trackPosition({
+                targets,
+                tooltip: tooltipRef.current,
+                onUpdate: updatePosition,
+                onVisibilityChange: setTargetVisible,
+            });
+
+            if (step.advanceOn) {
+                stopTrigger = watchAdvanceTrigger(step.advanceOn, elements[0], () => {
+                    stopTrigger();
+                    setAdvanced(true);
+                    handlersRef.current.onNext();
+                });
+            }
+        };
+
+        const resolveTarget = () => {
+            if (cancelled) return;
+            if (step.target === null) {
+                showCentered();
+                return;
+            }
+            stopWatching = watchTarget(
+                getStepTarget(step),
+                step.targetTimeout ?? config.targetTimeout ?? DEFAULT_TARGET_TIMEOUT,
+                handleTargetFound,
+                handleTargetNotFound
+            );
+        };
+
+        if (step.onBeforeShow) {
+            setTooltipStyle((style) => ({ ...style, opacity: 0 }));
+            Promise.resolve()
+                .then(() => step.onBeforeShow?.(step, currentStep))
+                .catch((error) => {
+                    console.warn('Onboarding: onBeforeShow failed', error);
+                })
+                .then(resolveTarget);
+        } else {
+            resolveTarget();
+        }
+
+        return () => {
+            cancelled = true;
+            stopWatching();
+            stopTracking();
+            stopTrigger();
+        };
+    }, [tour?.tourId, currentStep, runCount, isMobile]);
+
+    const overlayClick = () => {
+        switch (config?.overlayClickAction) {
+            case 'skip':
+                onSkip();
+                break;
+            case 'next':
+                if (!nextBlocked) onNext();
+                break;
+        }
+    };
+
+    const announcement = step
+        ? `${locale.progress(progress.current, progress.total)}${
+              typeof step.title === 'string' ? `: ${step.title}` : ''
+          }`
+        : '';
+
+    return {
+        isActive,
+        tourId: tour?.tourId ?? null,
+        step,
+        index: currentStep,
+        progress,
+        isFirst: tour?.isFirst ?? false,
+        isLast: tour?.isLast ?? false,
+        locale,
+        placement,
+        isCentered,
+        isMobile,
+        sheet,
+        targetVisible,
+        holes,
+        tooltipRef,
+        tooltipStyle: {
+            ...tooltipStyle,
+            opacity: tooltipStyle.opacity || 0,
+            visibility: targetVisible ? undefined : 'hidden',
+        },
+        arrowStyle,
+        titleId,
+        contentId,
+        announcement,
+        reducedMotion,
+        nextButton,
+        canAdvance: !nextBlocked,
+        showHint,
+        autoplayProgress: autoplaying ? elapsed / autoplayDuration : null,
+        next: onNext,
+        back: onBack,
+        skip: onSkip,
+        stop: tour?.onStop ?? noop,
+        goTo: tour?.onGoTo ?? noop,
+        overlayClick,
+    };
+};
+
+export const useTour = () => useTourStep(useContext(ActiveTourContext));
@@ -0,0 +1,160 @@
+import React, { ReactNode, useEffect, useState } from 'react';
+import { Beacon, useTargetRect } from './beacon';
+import { OnboardingLocale, resolveLocale } from './locale';
+import { OnboardingPersistenceConfig, resolveAdapter } from './persistence';
+import { ThemeScope, useOnboardingTheme } from './scope';
+import {
+    OnboardingHotspotClassNames,
+    OnboardingHotspotSlot,
+    OnboardingHotspotStyles,
+    getSlotClassName,
+    hotspotStylesheet,
+} from './styles';
+import { OnboardingTarget } from './targets';
+import { OnboardingThemeSetting, vars } from './themes';
+
+type HotspotStorage = OnboardingPersistenceConfig['storage'];
+
+const getHotspotKey = (id: string) => `rc-first-steps:hotspot:${id}`;
+
+export const isHotspotDismissed = async (id: string, storage?: HotspotStorage): Promise<boolean> => {
+    try {
+        return (await resolveAdapter(storage).getItem(getHotspotKey(id))) === 'dismissed';
+    } catch (error) {
+        console.warn(`Onboarding: Failed to load hotspot "${id}"`, error);
+        return false;
+    }
+};
+
+export const dismissHotspot = async (id: string, storage?: HotspotStorage): Promise<void> => {
+    try {
+        await resolveAdapter(storage).setItem(getHotspotKey(id), 'dismissed');
+    } catch (error) {
+        console.warn(`Onboarding: Failed to save hotspot "${id}"`, error);
+    }
+};
+
+export const resetHotspot = async (id: string, storage?: HotspotStorage): Promise<void> => {
+    try {
+        await resolveAdapter(storage).removeItem(getHotspotKey(id));
+    } catch (error) {
+        console.warn(`Onboarding: Failed to reset hotspot "${id}"`, error);
+    }
+};
+
+const CARD_WIDTH = 260;
+const VIEWPORT_PADDING = 16;
+
+export interface HotspotProps {
+    id: string;
+    target: OnboardingTarget;
+    title?: ReactNode;
+    content: ReactNode;
+    storage?: HotspotStorage;
+    locale?: Partial<OnboardingLocale>;
+    color?: string;
+    theme?: OnboardingThemeSetting;
+    unstyled?: boolean;
+    classNames?: OnboardingHotspotClassNames;
+    styles?: OnboardingHotspotStyles;
+    onOpen?: (id: string) => void;
+    onDismiss?: (id: string) => void;
+}
+
+export const Hotspot: React.FC<HotspotProps> = ({
+    id,
+    target,
+    title,
+    content,
+    storage,
+    locale: localeOverride,
+    color,
+    theme: themeSetting,
+    unstyled = false,
+    classNames,
+    styles,
+    onOpen,
+    onDismiss,
+}) => {
+    const [dismissed, setDismissed] = useState<boolean | null>(null);
+    const [isOpen, setIsOpen] = useState(false);
+    const rect = useTargetRect(target);
+    const locale = resolveLocale(localeOverride);
+    const theme = useOnboardingTheme(themeSetting);
+
+    useEffect(() => {
+        let cancelled = false;
+        isHotspotDismissed(id, storage).then((value) => {
+            if (!cancelled) setDismissed(value);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [id]);
+
+    if (dismissed !== false) return null;
+
+    const handleOpen = () => {
+        setIsOpen(!isOpen);
+        if (!isOpen) onOpen?.(id);
+    };
+
+    const handleDismiss = () => {
+        setDismissed(true);
+        setIsOpen(false);
+        dismissHotspot(id, storage);
+        onDismiss?.(id);
+    };
+
+    const left = rect
+        ? Math.min(
+              Math.max(rect.right - CARD_WIDTH / 2, VIEWPORT_PADDING),
+              window.innerWidth - CARD_WIDTH - VIEWPORT_PADDING
+          )
+        : 0;
+
+    const slot = (name: OnboardingHotspotSlot) => ({
+        className: getSlotClassName(name, classNames),
+        style: styles?.[name],
+    });
+
+    return (
+        <ThemeScope theme={theme}>
+            {!unstyled && <style>{hotspotStylesheet}</style>}
+            <Beacon
+                target={target}
+                label={locale.openHint}
+                onClick={handleOpen}
+                color={color}
+                unstyled={unstyled}
+                classNames={classNames}
+                styles={styles}
+            />
+            {isOpen && rect && (
+                <div
+                    role="dialog"
+                    dir={locale.dir}
+                    aria-label={typeof title === 'string' ? title : undefined}
+                    className={getSlotClassName('hotspot', classNames)}
+                    style={
+                        {
+                            position: 'fixed',
+                            top: `${rect.bottom + 16}px`,
+                            left: `${left}px`,
+                            width: `${CARD_WIDTH}px`,
+                            zIndex: vars.zIndex.tooltip,
+                            ...(color && { '--rcfs-beacon-color': color }),
+                            ...styles?.hotspot,
+                        } as React.CSSProperties
+                    }
+                >
+                    {title && <h3 {...slot('hotspotTitle')}>{title}</h3>}
+                    <div {...slot('hotspotContent')}>{content}</div>
+                    <button type="button" onClick={handleDismiss} {...slot('hotspotButton')}>
+                        {locale.dismiss}
+                    </button>
+                </div>
+            )}
+        </ThemeScope>
+    );
+};
@@ -1,17 +1,155 @@
+'use client';
+
 export {
+    DEFAULT_TOUR_ID,
     OnboardingProvider,
     useOnboarding,
+    useRegisterStep,
     useStartOnboarding
 } from './onboarding';
 
 export type {
     OnboardingStep,
-    OnboardingConfig
+    OnboardingConfig,
+    OnboardingTooltipProps,
+    OnboardingProgress,
+    OnboardingBranch
 } from './onboarding';
 
+export { createTour } from './controller';
+
+export type {
+    OnboardingController,
+    OnboardingControllerOptions,
+    OnboardingControllerState
+} from './controller';
+
+export { TourAnchor } from './anchors';
+
+export type { TourAnchorProps } from './anchors';
+
+export { useTour } from './headless';
+
+export type { OnboardingTourState } from './headless';
+
+export { computePosition } from './positioning';
+
+export type {
+    OnboardingPlacement,
+    OnboardingAlignment,
+    OnboardingPlacementVariant,
+    PositionOptions,
+    PositionResult
+} from './positioning';
+
+export type { OnboardingStepRef } from './branching';
+
+export type { OnboardingAdvanceTrigger } from './interactions';
+
+export type { OnboardingEvent, OnboardingEventType } from './events';
+
+export {
+    Hotspot,
+    isHotspotDismissed,
+    dismissHotspot,
+    resetHotspot
+} from './hotspot';
+
+export type { HotspotProps } from './hotspot';
+
 export {
+    TourChecklist,
+    isChecklistItemDone,
+    completeChecklistItem,
+    resetChecklistItem
+} from './checklist';
+
+export type { OnboardingChecklistItem, TourChecklistProps } from './checklist';
+
+export { TOUR_SCHEMA_VERSION, validateTour, loadTour, parseTour } from './schema';
+
+export type {
+    SerializedTour,
+    SerializedStep,
+    SerializedTheme,
+    SerializedLocale,
+    OnboardingValidationError,
+    OnboardingValidationResult
+} from './schema';
+
+export { findMissingTargets } from './dev';
+
+export type { OnboardingMissingTarget } from './dev';
+
+export { defaultLocale } from './locale';
+
+export type { OnboardingLocale } from './locale';
+
+export {
+    createLocalStorageAdapter,
+    createSessionStorageAdapter,
+    createMemoryAdapter,
+    createCookieAdapter,
+    getTourStateKey,
+    parseTourState
+} from './persistence';
+
+export type {
+    OnboardingStorageAdapter,
+    OnboardingPersistedState,
+    OnboardingPersistenceConfig,
+    OnboardingCookieOptions
+} from './persistence';
+
+export {
+    createHistoryRouter,
+    createNextAppRouter,
+    createNextPagesRouter,
+    createReactRouter
+} from './router';
+
+export type {
+    OnboardingRoute,
+    OnboardingRouteMatcher,
+    OnboardingRouterAdapter
+} from './router';
+
+export type {
+    OverlayClickAction,
+    SpotlightHole,
+    SpotlightPadding,
+    SpotlightShape
+} from './spotlight';
+
+export type {
+    OnboardingBeaconSlot,
+    OnboardingChecklistClassNames,
+    OnboardingChecklistSlot,
+    OnboardingChecklistStyles,
+    OnboardingClassNames,
+    OnboardingHotspotClassNames,
+    OnboardingHotspotSlot,
+    OnboardingHotspotStyles,
+    OnboardingSlot,
+    OnboardingStyles,
+} from './styles';
+
+export type { OnboardingIdleAction } from './timing';
+
+export type { OnboardingMobileOptions, OnboardingSheetEdge } from './mobile';
+
+export type { OnboardingTarget, OnboardingTargetElement, TargetNotFoundAction } from './targets';
+
+export {
+    createTheme,
+    lightTheme,
+    themes,
+    themeToCssVariables,
+    vars,
     darkTheme,
     modernTheme,
     minimalTheme,
     colorfulTheme
-} from './themes';
\ No newline at end of file
+} from './themes';
+
+export type { OnboardingTheme, OnboardingThemeOverrides, OnboardingThemeSetting } from './themes';
\ No newline at end of file
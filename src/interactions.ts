@@ -0,0 +1,72 @@
+import { ReactNode } from 'react';
+
+interface OnboardingAdvanceOptions {
+    nextButton?: 'hidden' | 'disabled' | 'enabled';
+    hint?: ReactNode;
+    hintDelay?: number;
+}
+
+export type OnboardingAdvanceTrigger = OnboardingAdvanceOptions &
+    (
+        | { type: 'click' }
+        | { type: 'input'; validate?: (value: string) => boolean }
+        | { type: 'event'; event: string; on?: 'target' | 'document' }
+        | { type: 'predicate'; predicate: () => boolean; interval?: number }
+    );
+
+export const DEFAULT_HINT_DELAY = 5000;
+
+const DEFAULT_PREDICATE_INTERVAL = 250;
+
+const findInput = (target: HTMLElement): HTMLInputElement | HTMLTextAreaElement | null => {
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+        return target;
+    }
+    return target.querySelector('input, textarea');
+};
+
+export const watchAdvanceTrigger = (
+    trigger: OnboardingAdvanceTrigger,
+    target: HTMLElement,
+    onSatisfied: () => void
+): (() => void) => {
+    switch (trigger.type) {
+        case 'click': {
+            target.addEventListener('click', onSatisfied);
+            return () => target.removeEventListener('click', onSatisfied);
+        }
+        case 'input': {
+            const input = findInput(target);
+            if (!input) {
+                console.warn('Onboarding: No input found for "input" advance trigger');
+                return () => {};
+            }
+
+            const handleInput = () => {
+                const valid = trigger.validate ? trigger.validate(input.value) : input.value.length > 0;
+                if (valid) onSatisfied();
+            };
+            input.addEventListener('input', handleInput);
+            return () => input.removeEventListener('input', handleInput);
+        }
+        case 'event': {
+            const source: EventTarget = trigger.on === 'document' ? document : target;
+            source.addEventListener(trigger.event, onSatisfied);
+            return () => source.removeEventListener(trigger.event, onSatisfied);
+        }
+        case 'predicate': {
+            if (trigger.predicate()) {
+                onSatisfied();
+                return () => {};
+            }
+
+            const interval = setInterval(() => {
+                if (trigger.predicate()) {
+                    clearInterval(interval);
+                    onSatisfied();
+                }
+            }, trigger.interval ?? DEFAULT_PREDICATE_INTERVAL);
+            return () => clearInterval(interval);
+        }
+    }
+};
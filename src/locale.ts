@@ -0,0 +1,47 @@
+export interface OnboardingLocale {
+    back: string;
+    next: string;
+    finish: string;
+    skip: string;
+    openHint: string;
+    dismiss: string;
+    checklist: string;
+    start: string;
+    resume: string;
+    done: string;
+    progress: (current: number, total: number) => string;
+    dir: 'ltr' | 'rtl';
+}
+
+export const defaultLocale: OnboardingLocale = {
+    back: 'Back',
+    next: 'Next',
+    finish: 'Finish',
+    skip: 'Skip',
+    openHint: 'Open hint',
+    dismiss: 'Got it',
+    checklist: 'Getting started',
+    start: 'Start',
+    resume: 'Resume',
+    done: 'Done',
+    progress: (current, total) => `Step ${current} of ${total}`,
+    dir: 'ltr',
+};
+
+export const resolveLocale = (
+    ...overrides: Array<Partial<OnboardingLocale> | undefined>
+): OnboardingLocale => {
+    return overrides.reduce<OnboardingLocale>((locale, override) => ({ ...locale, ...override }), defaultLocale);
+};
+
+export const mirrorPlacement = <T extends string>(placement: T, dir: OnboardingLocale['dir']): T => {
+    if (dir !== 'rtl') return placement;
+
+    const [side, alignment] = placement.split('-');
+    const mirroredSide = side === 'left' ? 'right' : side === 'right' ? 'left' : side;
+    if (!alignment) return mirroredSide as T;
+
+    const mirroredAlignment =
+        side === 'top' || side === 'bottom' ? (alignment === 'start' ? 'end' : 'start') : alignment;
+    return `${mirroredSide}-${mirroredAlignment}` as T;
+};
@@ -0,0 +1,15 @@
+import { getMobileQuery, resolveMobileOptions } from './mobile';
+
+describe('getMobileQuery', () => {
+    it('matches narrow screens by default', () => {
+        expect(getMobileQuery(resolveMobileOptions(undefined))).toBe('(max-width: 639px)');
+    });
+
+    it('matches touch screens only when asked to', () => {
+        expect(getMobileQuery({ breakpoint: 768, coarsePointer: true })).toBe('(max-width: 767px), (pointer: coarse)');
+    });
+
+    it('is off with mobile: false', () => {
+        expect(getMobileQuery(resolveMobileOptions(false))).toBeNull();
+    });
+});
@@ -0,0 +1,77 @@
+import type React from 'react';
+import { useMediaQuery } from './scope';
+import { ViewportBounds } from './tracking';
+
+export interface OnboardingMobileOptions {
+    breakpoint?: number;
+    coarsePointer?: boolean;
+    swipe?: boolean;
+}
+
+export type OnboardingSheetEdge = 'top' | 'bottom';
+
+export const DEFAULT_MOBILE_BREAKPOINT = 640;
+
+const SWIPE_DISTANCE = 50;
+
+export const resolveMobileOptions = (
+    setting: boolean | OnboardingMobileOptions | undefined
+): OnboardingMobileOptions | null => {
+    if (setting === false) return null;
+    return setting === true || setting === undefined ? {} : setting;
+};
+
+export const getMobileQuery = (options: OnboardingMobileOptions | null): string | null => {
+    if (!options) return null;
+    const { breakpoint = DEFAULT_MOBILE_BREAKPOINT, coarsePointer = false } = options;
+    return [`(max-width: ${breakpoint - 1}px)`, ...(coarsePointer ? ['(pointer: coarse)'] : [])].join(', ');
+};
+
+export const useMobileMode = (options: OnboardingMobileOptions | null) => useMediaQuery(getMobileQuery(options));
+
+export const getSheetEdge = (target: { top: number; height: number }, viewport: ViewportBounds): OnboardingSheetEdge =>
+    target.top + target.height / 2 - viewport.top > viewport.height / 2 ? 'top' : 'bottom';
+
+export const getSheetStyle = (edge: OnboardingSheetEdge, viewport: ViewportBounds): React.CSSProperties => ({
+    position: 'fixed',
+    left: `${viewport.left}px`,
+    width: `${viewport.width}px`,
+    ...(edge === 'top'
+        ? { top: `${viewport.top}px` }
+        : { bottom: `${window.innerHeight - viewport.top - viewport.height}px` }),
+});
+
+export const watchSwipe = (element: HTMLElement | null, onSwipe: (direction: 'left' | 'right') => void) => {
+    if (!element) return () => {};
+
+    let start: { x: number; y: number } | null = null;
+
+    const handleTouchStart = (event: TouchEvent) => {
+        const touch = event.touches[0];
+        start = event.touches.length === 1 ? { x: touch.clientX, y: touch.clientY } : null;
+    };
+    const handleTouchEnd = (event: TouchEvent) => {
+        const touch = event.changedTouches[0];
+        if (!start || !touch) return;
+
+        const dx = touch.clientX - start.x;
+        const dy = touch.clientY - start.y;
+        start = null;
+        if (Math.abs(dx) >= SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy) * 1.5) {
+            onSwipe(dx < 0 ? 'left' : 'right');
+        }
+    };
+    const handleTouchCancel = () => {
+        start = null;
+    };
+
+    element.addEventListener('touchstart', handleTouchStart, { passive: true });
+    element.addEventListener('touchend', handleTouchEnd);
+    element.addEventListener('touchcancel', handleTouchCancel);
+
+    return () => {
+        element.removeEventListener('touchstart', handleTouchStart);
+        element.removeEventListener('touchend', handleTouchEnd);
+        element.removeEventListener('touchcancel', handleTouchCancel);
+    };
+};
@@ -0,0 +1,61 @@
+import { act } from 'react';
+import { renderTour } from './testing';
+
+describe('idleAction: minimize', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        document.body.innerHTML = '';
+    });
+
+    it('docks the restore beacon when the step has no target', async () => {
+        const tour = renderTour(
+            {
+                idleTimeout: 1000,
+                idleAction: 'minimize',
+                steps: [{ id: 'welcome', target: null, title: 'Welcome', content: '...' }],
+            },
+            { advanceTimers: jest.advanceTimersByTime }
+        );
+
+        await tour.flush(1000);
+        expect(tour.queryTooltip()).toBeNull();
+        expect(tour.onboarding.isMinimized).toBe(true);
+
+        const beacon = document.querySelector<HTMLButtonElement>('button[aria-label="Open hint"]');
+        expect(beacon).not.toBeNull();
+        act(() => beacon?.click());
+        expect(tour.getStepTitle()).toBe('Welcome');
+        tour.unmount();
+    });
+});
+
+describe('restarting a tour', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('sets up the step it is already on again', async () => {
+        const onBeforeShow = jest.fn();
+        const onEvent = jest.fn();
+        const tour = renderTour(
+            { steps: [{ id: 'welcome', target: null, title: 'Welcome', content: '...', onBeforeShow }] },
+            { providerProps: { onEvent } }
+        );
+        await tour.flush();
+
+        act(() => tour.onboarding.start());
+        await tour.flush();
+        expect(onBeforeShow).toHaveBeenCalledTimes(2);
+        expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+            'tour:start',
+            'step:show',
+            'tour:start',
+            'step:show',
+        ]);
+        tour.unmount();
+    });
+});
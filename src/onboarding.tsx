@@ -1,42 +1,144 @@
-import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useSyncExternalStore, ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+import { visuallyHiddenStyle } from './a11y';
+import { OnboardingPersistedState, OnboardingPersistenceConfig } from './persistence';
+import { Beacon } from './beacon';
+import { findMissingTargets, isDevelopment, reportMissingTargets } from './dev';
+import { ActiveTour, ActiveTourContext, useTourStep } from './headless';
+import { OnboardingPlacementVariant } from './positioning';
+import { OnboardingStepRef, resolvePath } from './branching';
+import { DEFAULT_TOUR_ID, OnboardingController, createTour } from './controller';
+import { OnboardingEvent } from './events';
+import { OnboardingAdvanceTrigger } from './interactions';
+import { OnboardingLocale, resolveLocale } from './locale';
+import { OnboardingMobileOptions } from './mobile';
+import { OnboardingRoute, OnboardingRouterAdapter, getRoutePath, matchRoute } from './router';
+import { OverlayClickAction, SpotlightOverlay, SpotlightPadding, SpotlightShape } from './spotlight';
+import { ThemeScope, useOnboardingTheme } from './scope';
+import { OnboardingClassNames, OnboardingSlot, OnboardingStyles, defaultStylesheet, getSlotClassName } from './styles';
+import { OnboardingThemeSetting } from './themes';
+import { OnboardingIdleAction } from './timing';
+import { OnboardingTarget, TargetNotFoundAction, describeTarget, getStepTarget } from './targets';
+
+export interface OnboardingTooltipProps {
+    step: OnboardingStep;
+    index: number;
+    total: number;
+    placement: OnboardingPlacementVariant;
+    isFirst: boolean;
+    isLast: boolean;
+    progress: OnboardingProgress;
+    titleId: string;
+    contentId: string;
+    locale: OnboardingLocale;
+    next: () => void;
+    back: () => void;
+    skip: () => void;
+    close: () => void;
+    goTo: (step: OnboardingStepRef) => void;
+    canAdvance: boolean;
+    showHint: boolean;
+    autoplayProgress: number | null;
+}
+
+export interface OnboardingProgress {
+    current: number;
+    total: number;
+}
+
+export interface OnboardingBranch {
+    label: ReactNode;
+    goTo: OnboardingStepRef;
+}
 
 export interface OnboardingStep {
-    target: string;
-    title: string;
-    content: string;
-    placement?: 'top' | 'bottom' | 'left' | 'right' | 'auto';
+    id?: string;
+    target?: OnboardingTarget | null;
+    order?: number;
+    title: ReactNode;
+    content: ReactNode;
+    placement?: OnboardingPlacementVariant | 'auto';
+    offset?: number;
     disableBeacon?: boolean;
     spotlightClicks?: boolean;
+    spotlightShape?: SpotlightShape;
+    spotlightPadding?: SpotlightPadding;
+    targetTimeout?: number;
+    targetNotFoundAction?: TargetNotFoundAction;
+    route?: OnboardingRoute;
+    tooltipComponent?: React.ComponentType<OnboardingTooltipProps>;
+    locale?: Partial<OnboardingLocale>;
+    onBeforeShow?: (step: OnboardingStep, index: number) => void | Promise<void>;
+    onAfterShow?: (step: OnboardingStep, index: number) => void;
+    when?: () => boolean;
+    next?: OnboardingStepRef | (() => OnboardingStepRef | undefined);
+    branches?: OnboardingBranch[];
+    advanceOn?: OnboardingAdvanceTrigger;
+    duration?: number;
 }
 
 export interface OnboardingConfig {
+    title?: string;
     steps: OnboardingStep[];
     showProgress?: boolean;
     showSkipButton?: boolean;
+    /** @deprecated Use `autoplay`; `continuous: true` turns autoplay on when `autoplay` is not set. */
     continuous?: boolean;
     scrollToSteps?: boolean;
     scrollOffset?: number;
     disableOverlay?: boolean;
     disableScrolling?: boolean;
-    spotlightPadding?: number;
-    styles?: {
-        overlay?: React.CSSProperties;
-        spotlight?: React.CSSProperties;
-        tooltip?: React.CSSProperties;
-        buttonNext?: React.CSSProperties;
-        buttonBack?: React.CSSProperties;
-        buttonSkip?: React.CSSProperties;
-    };
+    spotlightPadding?: SpotlightPadding;
+    spotlightShape?: SpotlightShape;
+    spotlightRadius?: number;
+    overlayClickAction?: OverlayClickAction;
+    offset?: number;
+    beacon?: boolean;
+    theme?: OnboardingThemeSetting;
+    targetTimeout?: number;
+    targetNotFoundAction?: TargetNotFoundAction;
+    persistence?: OnboardingPersistenceConfig;
+    tooltipComponent?: React.ComponentType<OnboardingTooltipProps>;
+    accessible?: boolean;
+    locale?: Partial<OnboardingLocale>;
+    headless?: boolean;
+    validateTargets?: boolean;
+    autoplay?: boolean;
+    autoplayDuration?: number;
+    idleTimeout?: number;
+    idleAction?: OnboardingIdleAction;
+    mobile?: boolean | OnboardingMobileOptions;
+    unstyled?: boolean;
+    classNames?: OnboardingClassNames;
+    styles?: OnboardingStyles;
 }
 
+export { DEFAULT_TOUR_ID };
+
 interface OnboardingContextType {
     isActive: boolean;
+    activeTour: string | null;
     currentStep: number;
-    start: () => void;
+    progress: OnboardingProgress;
+    tours: string[];
+    start: (tourId?: string) => void;
     stop: () => void;
     next: () => void;
     back: () => void;
-    goToStep: (step: number) => void;
+    goToStep: (step: OnboardingStepRef) => void;
+    queue: (tourId: string) => void;
+    registerTour: (tourId: string, config: OnboardingConfig) => () => void;
+    registerStep: (tourId: string, step: OnboardingStep) => () => void;
+    resume: (tourId?: string) => void;
+    reset: (tourId?: string) => void;
+    hasCompleted: boolean;
+    isTourCompleted: (tourId: string) => boolean;
+    isPlaying: boolean;
+    play: () => void;
+    pause: () => void;
+    isMinimized: boolean;
+    restore: () => void;
+    controller: OnboardingController;
 }
 
 const OnboardingContext = createContext<OnboardingContextType | undefined>(undefined);
@@ -51,445 +153,529 @@ export const useOnboarding = () => {
 
 interface OnboardingProviderProps {
     children: ReactNode;
-    config: OnboardingConfig;
-    run?: boolean;
-    onComplete?: () => void;
-    onSkip?: () => void;
+    config?: OnboardingConfig;
+    tours?: Record<string, OnboardingConfig>;
+    initialTour?: string;
+    router?: OnboardingRouterAdapter;
+    run?: boolean | 'once';
+    onComplete?: (tourId: string) => void;
+    onSkip?: (tourId: string, stepIndex: number) => void;
+    onTargetNotFound?: (step: OnboardingStep, index: number, action: TargetNotFoundAction) => void;
+    onEvent?: (event: OnboardingEvent) => void;
+    container?: Element | null | (() => Element | null);
+    initialState?: Record<string, Partial<OnboardingPersistedState>>;
+    controller?: OnboardingController;
 }
 
 export const OnboardingProvider: React.FC<OnboardingProviderProps> = ({
     children,
     config,
+    tours,
+    initialTour,
+    router,
     run = false,
     onComplete,
     onSkip,
+    onTargetNotFound,
+    onEvent,
+    container,
+    initialState,
+    controller: providedController,
 }) => {
-    const [isActive, setIsActive] = useState(run);
-    const [currentStep, setCurrentStep] = useState(0);
+    const [ownController] = useState(() => createTour(undefined, { initialState }));
+    const controller = providedController ?? ownController;
 
-    useEffect(() => {
-        setIsActive(run);
-    }, [run]);
+    controller.syncTours({ ...tours, ...(config ? { [DEFAULT_TOUR_ID]: config } : {}) });
 
-    const start = () => {
-        setCurrentStep(0);
-        setIsActive(true);
-    };
+    const { activeTour, currentStep, history, runCount, isPlaying, isMinimized, persisted } = useSyncExternalStore(
+        controller.subscribe,
+        controller.getState,
+        controller.getState
+    );
+    const registry = controller.getTours();
+    const tourIds = Object.keys(registry);
+    const defaultTour = initialTour ?? (registry[DEFAULT_TOUR_ID] ? DEFAULT_TOUR_ID : tourIds[0]);
 
-    const stop = () => {
-        setIsActive(false);
-        setCurrentStep(0);
-    };
+    const [openedBeacon, setOpenedBeacon] = useState<number | null>(null);
+    const [mounted, setMounted] = useState(false);
 
-    const next = () => {
-        if (currentStep < config.steps.length - 1) {
-            setCurrentStep(currentStep + 1);
-        } else {
-            setIsActive(false);
-            onComplete?.();
-        }
+    useEffect(() => {
+        setMounted(true);
+    }, []);
+
+    const [path, setPath] = useState(() => router?.getPath());
+
+    const isActive = activeTour !== null;
+    const activeConfig = activeTour !== null ? registry[activeTour] : undefined;
+    const activeStep = activeConfig?.steps[currentStep];
+    const remainingPath = activeConfig ? resolvePath(activeConfig.steps, currentStep) : [];
+    const progress: OnboardingProgress = {
+        current: history.length + 1,
+        total: history.length + remainingPath.length,
     };
+    const routeMatches = !router || !activeStep?.route || matchRoute(activeStep.route, path ?? router.getPath());
+
+    useEffect(() => {
+        if (!router) return;
+        setPath(router.getPath());
+        return router.subscribe?.(setPath);
+    }, [router]);
 
-    const back = () => {
-        if (currentStep > 0) {
-            setCurrentStep(currentStep - 1);
+    const routedStepRef = useRef<{ key: string; matched: boolean } | null>(null);
+
+    useEffect(() => {
+        if (!router || activeTour === null || !activeStep?.route) {
+            routedStepRef.current = null;
+            return;
         }
-    };
 
-    const goToStep = (step: number) => {
-        if (step >= 0 && step < config.steps.length) {
-            setCurrentStep(step);
+        const key = `${activeTour}:${currentStep}`;
+        const routed = routedStepRef.current;
+        if (routed?.key !== key) {
+            // Navigate once per step; after that the user is free to leave the page.
+            routedStepRef.current = { key, matched: routeMatches };
+            if (!routeMatches) {
+                router.navigate(getRoutePath(activeStep.route));
+            }
+            return;
         }
-    };
+        if (routeMatches) {
+            routed.matched = true;
+        } else if (routed.matched) {
+            controller.pause();
+        }
+    }, [activeTour, currentStep, routeMatches]);
 
-    const handleSkip = () => {
-        setIsActive(false);
-        onSkip?.();
-    };
+    const persistenceKey = tourIds
+        .map((id) => `${id}:${registry[id].persistence?.tourId ?? ''}`)
+        .join('|');
 
-    return (
-        <OnboardingContext.Provider value={{ isActive, currentStep, start, stop, next, back, goToStep }}>
-            {children}
-            {isActive && (
-                <OnboardingOverlay
-                    config={config}
-                    currentStep={currentStep}
-                    onNext={next}
-                    onBack={back}
-                    onSkip={handleSkip}
-                />
-            )}
-        </OnboardingContext.Provider>
+    useEffect(() => {
+        controller.load();
+    }, [controller, persistenceKey]);
+
+    const callbacksRef = useRef({ onEvent, onComplete, onSkip });
+    callbacksRef.current = { onEvent, onComplete, onSkip };
+
+    useEffect(
+        () =>
+            controller.onEvent((event) => {
+                const callbacks = callbacksRef.current;
+                callbacks.onEvent?.(event);
+                if (event.type === 'tour:complete') {
+                    callbacks.onComplete?.(event.tourId);
+                } else if (event.type === 'tour:skip') {
+                    callbacks.onSkip?.(event.tourId, event.stepIndex);
+                }
+            }),
+        [controller]
     );
-};
 
-interface OnboardingOverlayProps {
-    config: OnboardingConfig;
-    currentStep: number;
-    onNext: () => void;
-    onBack: () => void;
-    onSkip: () => void;
-}
-
-const OnboardingOverlay: React.FC<OnboardingOverlayProps> = ({
-    config,
-    currentStep,
-    onNext,
-    onBack,
-    onSkip,
-}) => {
-    const [tooltipStyle, setTooltipStyle] = useState<React.CSSProperties>({});
-    const [spotlightStyle, setSpotlightStyle] = useState<React.CSSProperties>({});
-    const [arrowStyle, setArrowStyle] = useState<React.CSSProperties>({});
-    const [showArrow, setShowArrow] = useState(false);
-    const tooltipRef = useRef<HTMLDivElement>(null);
-
-    const step = config.steps[currentStep];
+    const defaultTourLoaded = !defaultTour || controller.isLoaded(defaultTour);
+    const runningRef = useRef(false);
 
     useEffect(() => {
-        const updatePosition = () => {
-            const target = document.querySelector(step.target) as HTMLElement;
-            if (!target) {
-                console.warn(`Onboarding: Target element "${step.target}" not found`);
-                return;
+        if (!defaultTour) return;
+        if (!run) {
+            // Only stop a tour this provider started, so a controller driven from outside keeps running.
+            if (runningRef.current) {
+                controller.stop();
             }
+            runningRef.current = false;
+            return;
+        }
+        if (run === true) {
+            runningRef.current = true;
+            controller.start(defaultTour);
+        }
+    }, [run, defaultTour]);
 
-            const rect = target.getBoundingClientRect();
-            const padding = config.spotlightPadding || 8;
-
-            setSpotlightStyle({
-                position: 'fixed',
-                top: `${rect.top - padding}px`,
-                left: `${rect.left - padding}px`,
-                width: `${rect.width + padding * 2}px`,
-                height: `${rect.height + padding * 2}px`,
-                borderRadius: '8px',
-                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.75)',
-                pointerEvents: step.spotlightClicks ? 'none' : 'auto',
-                zIndex: 9998,
-                transition: 'all 0.3s ease',
-                ...config.styles?.spotlight,
-            });
-
-            if (config.scrollToSteps) {
-                const offset = config.scrollOffset || 100;
-                const elementPosition = rect.top + window.scrollY;
-                const offsetPosition = elementPosition - offset;
-
-                window.scrollTo({
-                    top: offsetPosition,
-                    behavior: 'smooth',
-                });
-            }
+    useEffect(() => {
+        if (run !== 'once' || !defaultTour || !defaultTourLoaded) return;
 
-            setTimeout(() => {
-                if (!tooltipRef.current) return;
-
-                const tooltipRect = tooltipRef.current.getBoundingClientRect();
-                const placement = step.placement || 'auto';
-                const gap = 16; 
-                const viewportPadding = 16; 
-
-                let top = 0;
-                let left = 0;
-                let finalPlacement = placement;
-
-                const fitsInViewport = (t: number, l: number) => {
-                    return (
-                        t >= viewportPadding &&
-                        l >= viewportPadding &&
-                        t + tooltipRect.height <= window.innerHeight - viewportPadding &&
-                        l + tooltipRect.width <= window.innerWidth - viewportPadding
-                    );
-                };
-
-                const overlapsTarget = (t: number, l: number) => {
-                    const tooltipBottom = t + tooltipRect.height;
-                    const tooltipRight = l + tooltipRect.width;
-                    const targetBottom = rect.bottom;
-                    const targetRight = rect.right;
-
-                    return !(
-                        t > targetBottom ||
-                        tooltipBottom < rect.top ||
-                        l > targetRight ||
-                        tooltipRight < rect.left
-                    );
-                };
-
-                const placements = placement === 'auto'
-                    ? ['bottom', 'top', 'right', 'left']
-                    : [placement, 'bottom', 'top', 'right', 'left'];
-
-                for (const p of placements) {
-                    let testTop = 0;
-                    let testLeft = 0;
-
-                    switch (p) {
-                        case 'top':
-                            testTop = rect.top - tooltipRect.height - gap;
-                            testLeft = rect.left + rect.width / 2 - tooltipRect.width / 2;
-                            break;
-                        case 'bottom':
-                            testTop = rect.bottom + gap;
-                            testLeft = rect.left + rect.width / 2 - tooltipRect.width / 2;
-                            break;
-                        case 'left':
-                            testTop = rect.top + rect.height / 2 - tooltipRect.height / 2;
-                            testLeft = rect.left - tooltipRect.width - gap;
-                            break;
-                        case 'right':
-                            testTop = rect.top + rect.height / 2 - tooltipRect.height / 2;
-                            testLeft = rect.right + gap;
-                            break;
-                    }
-
-                    if (testLeft < viewportPadding) {
-                        testLeft = viewportPadding;
-                    }
-                    if (testLeft + tooltipRect.width > window.innerWidth - viewportPadding) {
-                        testLeft = window.innerWidth - tooltipRect.width - viewportPadding;
-                    }
-
-                    if (testTop < viewportPadding) {
-                        testTop = viewportPadding;
-                    }
-                    if (testTop + tooltipRect.height > window.innerHeight - viewportPadding) {
-                        testTop = window.innerHeight - tooltipRect.height - viewportPadding;
-                    }
-
-                    if (!overlapsTarget(testTop, testLeft) && fitsInViewport(testTop, testLeft)) {
-                        top = testTop;
-                        left = testLeft;
-                        finalPlacement = p as 'top' | 'bottom' | 'left' | 'right';
-                        break;
-                    }
-                }
+        runningRef.current = true;
+        const state = persisted[defaultTour];
+        if (state && (state.completed || state.skipped)) return;
+        controller.resume(defaultTour);
+    }, [run, defaultTour, defaultTourLoaded]);
 
-                if (top === 0 && left === 0) {
-                    switch (placements[0]) {
-                        case 'top':
-                            top = rect.top - tooltipRect.height - gap * 2;
-                            left = rect.left + rect.width / 2 - tooltipRect.width / 2;
-                            finalPlacement = 'top';
-                            break;
-                        case 'bottom':
-                            top = rect.bottom + gap * 2;
-                            left = rect.left + rect.width / 2 - tooltipRect.width / 2;
-                            finalPlacement = 'bottom';
-                            break;
-                        case 'left':
-                            top = rect.top + rect.height / 2 - tooltipRect.height / 2;
-                            left = rect.left - tooltipRect.width - gap * 2;
-                            finalPlacement = 'left';
-                            break;
-                        case 'right':
-                            top = rect.top + rect.height / 2 - tooltipRect.height / 2;
-                            left = rect.right + gap * 2;
-                            finalPlacement = 'right';
-                            break;
-                    }
-                }
+    useEffect(() => {
+        if (activeTour === null || !activeConfig) return;
 
-                if (left < viewportPadding) left = viewportPadding;
-                if (left + tooltipRect.width > window.innerWidth - viewportPadding) {
-                    left = window.innerWidth - tooltipRect.width - viewportPadding;
-                }
-                if (top < viewportPadding) top = viewportPadding;
-                if (top + tooltipRect.height > window.innerHeight - viewportPadding) {
-                    top = window.innerHeight - tooltipRect.height - viewportPadding;
-                }
+        if (activeConfig.validateTargets ?? isDevelopment()) {
+            const currentPath = path ?? router?.getPath();
+            const isOnPage = (step: OnboardingStep) =>
+                !router || !step.route || currentPath === undefined || matchRoute(step.route, currentPath);
+            reportMissingTargets(activeTour, findMissingTargets(activeConfig.steps, isOnPage));
+        }
+    }, [activeTour]);
 
-                setTooltipStyle({
-                    position: 'fixed',
-                    top: `${top}px`,
-                    left: `${left}px`,
-                    zIndex: 9999,
-                    opacity: 1,
-                });
-
-                const arrowSize = 12;
-                let arrowTop = 0;
-                let arrowLeft = 0;
-                let arrowTransform = '';
-
-                switch (finalPlacement) {
-                    case 'top':
-                        arrowTop = tooltipRect.height;
-                        arrowLeft = rect.left + rect.width / 2 - left - arrowSize / 2;
-                        arrowTransform = 'rotate(180deg)';
-                        break;
-                    case 'bottom':
-                        arrowTop = -arrowSize;
-                        arrowLeft = rect.left + rect.width / 2 - left - arrowSize / 2;
-                        arrowTransform = 'rotate(0deg)';
-                        break;
-                    case 'left':
-                        arrowTop = rect.top + rect.height / 2 - top - arrowSize / 2;
-                        arrowLeft = tooltipRect.width;
-                        arrowTransform = 'rotate(90deg)';
-                        break;
-                    case 'right':
-                        arrowTop = rect.top + rect.height / 2 - top - arrowSize / 2;
-                        arrowLeft = -arrowSize;
-                        arrowTransform = 'rotate(-90deg)';
-                        break;
-                }
+    useEffect(() => {
+        setOpenedBeacon(null);
+    }, [activeTour, currentStep]);
+
+    const handleTargetNotFound = (step: OnboardingStep, index: number, action: TargetNotFoundAction) => {
+        if (!onTargetNotFound && !onEvent) {
+            console.warn(
+                `Onboarding: Target element "${describeTarget(getStepTarget(step))}" not found, action: ${action}`
+            );
+        }
+        onTargetNotFound?.(step, index, action);
+        controller.targetNotFound(step, index, action);
+    };
 
-                if (arrowLeft < arrowSize) arrowLeft = arrowSize;
-                if (arrowLeft > tooltipRect.width - arrowSize * 2) {
-                    arrowLeft = tooltipRect.width - arrowSize * 2;
-                }
+    const handleIdle = () => {
+        if (activeConfig?.idleAction === 'minimize') {
+            controller.minimize();
+        } else {
+            controller.stop();
+        }
+    };
 
-                setArrowStyle({
-                    position: 'absolute',
-                    top: `${arrowTop}px`,
-                    left: `${arrowLeft}px`,
-                    transform: arrowTransform,
-                });
-                setShowArrow(true);
-            }, 50);
-        };
+    const restore = () => {
+        controller.restore();
+        setOpenedBeacon(currentStep);
+    };
 
-        updatePosition();
+    const resolveTourId = (tourId?: unknown) =>
+        typeof tourId === 'string' ? tourId : activeTour ?? defaultTour;
+
+    const start = (tourId?: string) => controller.start(resolveTourId(tourId));
+    const resume = (tourId?: string) => controller.resume(resolveTourId(tourId));
+    const reset = (tourId?: string) => controller.reset(resolveTourId(tourId));
+
+    const theme = useOnboardingTheme(activeConfig?.theme);
+    const activeTarget = activeStep && getStepTarget(activeStep);
+    const showBeacon =
+        isMinimized ||
+        (!!activeConfig?.beacon && !!activeTarget && !activeStep?.disableBeacon && openedBeacon !== currentStep);
+
+    const activeTourState: ActiveTour | null =
+        mounted && activeTour !== null && activeConfig && routeMatches
+            ? {
+                  tourId: activeTour,
+                  config: activeConfig,
+                  theme,
+                  currentStep,
+                  runCount,
+                  progress,
+                  isFirst: history.length === 0,
+                  isLast: remainingPath.length <= 1,
+                  isPlaying,
+                  onNext: controller.next,
+                  onGoTo: controller.goToStep,
+                  onBack: controller.back,
+                  onSkip: controller.skip,
+                  onStop: controller.stop,
+                  onStepShown: controller.stepShown,
+                  onIdle: handleIdle,
+                  onTargetNotFound: handleTargetNotFound,
+              }
+            : null;
+
+    const portalContainer = mounted
+        ? (typeof container === 'function' ? container() : container) ?? document.body
+        : null;
+
+    const isTourCompleted = (tourId: string) => !!persisted[tourId]?.completed;
+    const currentTour = activeTour ?? defaultTour;
+    const hasCompleted = currentTour ? isTourCompleted(currentTour) : false;
 
-        const initialTimeout = setTimeout(updatePosition, 100);
+    return (
+        <OnboardingContext.Provider
+            value={{
+                isActive,
+                activeTour,
+                currentStep,
+                progress,
+                tours: tourIds,
+                start,
+                stop: controller.stop,
+                next: controller.next,
+                back: controller.back,
+                goToStep: controller.goToStep,
+                queue: controller.queue,
+                registerTour: controller.registerTour,
+                registerStep: controller.registerStep,
+                resume,
+                reset,
+                hasCompleted,
+                isTourCompleted,
+                isPlaying,
+                play: controller.play,
+                pause: controller.pause,
+                isMinimized,
+                restore,
+                controller,
+            }}
+        >
+            <ActiveTourContext.Provider value={activeConfig?.headless && !isMinimized ? activeTourState : null}>
+                {children}
+            </ActiveTourContext.Provider>
+            {portalContainer &&
+                createPortal(
+                    <>
+                        {activeConfig && routeMatches && showBeacon && !activeConfig.headless && (
+                            <ThemeScope theme={theme}>
+                                <Beacon
+                                    target={activeTarget}
+                                    label={resolveLocale(activeConfig.locale, activeStep?.locale).openHint}
+                                    docked={isMinimized}
+                                    unstyled={activeConfig.unstyled}
+                                    classNames={activeConfig.classNames}
+                                    styles={activeConfig.styles}
+                                    onClick={restore}
+                                />
+                            </ThemeScope>
+                        )}
+                        {activeTourState && !showBeacon && !activeConfig?.headless && (
+                            <OnboardingOverlay key={activeTour} tour={activeTourState} />
+                        )}
+                    </>,
+                    portalContainer
+                )}
+        </OnboardingContext.Provider>
+    );
+};
 
-        window.addEventListener('resize', updatePosition);
-        window.addEventListener('scroll', updatePosition, true);
+interface OnboardingOverlayProps {
+    tour: ActiveTour;
+}
 
-        return () => {
-            clearTimeout(initialTimeout);
-            window.removeEventListener('resize', updatePosition);
-            window.removeEventListener('scroll', updatePosition, true);
-        };
-    }, [currentStep, step, config]);
+const OnboardingOverlay: React.FC<OnboardingOverlayProps> = ({ tour }) => {
+    const {
+        step,
+        index,
+        progress,
+        isFirst,
+        isLast,
+        locale,
+        placement,
+        isCentered,
+        sheet,
+        holes,
+        tooltipRef,
+        tooltipStyle,
+        arrowStyle,
+        titleId,
+        contentId,
+        announcement,
+        reducedMotion,
+        nextButton,
+        canAdvance,
+        showHint,
+        autoplayProgress,
+        next,
+        back,
+        skip,
+        stop,
+        goTo,
+        overlayClick,
+    } = useTourStep(tour);
+    const { config, theme } = tour;
+
+    if (!step) return null;
+
+    const accessible = config.accessible !== false;
+    const unstyled = !!config.unstyled;
+    const TooltipComponent = step.tooltipComponent || config.tooltipComponent;
+    const slot = (name: OnboardingSlot) => ({
+        className: getSlotClassName(name, config.classNames),
+        style: config.styles?.[name],
+    });
+
+    const arrow = !isCentered && !sheet && <div {...slot('arrow')} style={{ ...arrowStyle, ...config.styles?.arrow }} />;
+
+    const renderNextButton = (label: ReactNode, onClick: () => void, key?: React.Key, disabled = false) => (
+        <button key={key} onClick={onClick} disabled={disabled} {...slot('buttonNext')}>
+            {label}
+        </button>
+    );
 
     return (
-        <>
-            {!config.disableOverlay && <div style={spotlightStyle} />}
-            <div ref={tooltipRef} style={{ ...tooltipStyle, ...config.styles?.tooltip, opacity: tooltipStyle.opacity || 0 }}>
-                <div
-                    style={{
-                        background: 'white',
-                        borderRadius: '12px',
-                        padding: '20px',
-                        boxShadow: '0 4px 20px rgba(0, 0, 0, 0.25)',
-                        maxWidth: '400px',
-                        minWidth: '280px',
-                        position: 'relative',
-                    }}
-                >
-                    {showArrow && (
-                        <div
-                            style={{
-                                ...arrowStyle,
-                                width: 0,
-                                height: 0,
-                                borderLeft: '12px solid transparent',
-                                borderRight: '12px solid transparent',
-                                borderBottom: '12px solid white',
-                                filter: 'drop-shadow(0 -2px 2px rgba(0, 0, 0, 0.1))',
-                            }}
+        <ThemeScope theme={theme}>
+            {!unstyled && <style>{defaultStylesheet}</style>}
+            {!config.disableOverlay && (
+                <SpotlightOverlay
+                    holes={holes}
+                    allowClicks={!!(step.spotlightClicks || step.advanceOn)}
+                    reducedMotion={reducedMotion}
+                    onClick={overlayClick}
+                    overlayStyle={config.styles?.overlay}
+                    spotlightStyle={config.styles?.spotlight}
+                    overlayClassName={getSlotClassName('overlay', config.classNames)}
+                    spotlightClassName={getSlotClassName('spotlight', config.classNames)}
+                />
+            )}
+            {accessible && (
+                <div aria-live="polite" aria-atomic="true" style={visuallyHiddenStyle}>
+                    {announcement}
+                </div>
+            )}
+            <div
+                ref={tooltipRef}
+                dir={locale.dir}
+                className={getSlotClassName('tooltip', config.classNames)}
+                data-placement={isCentered ? 'center' : placement}
+                data-sheet={sheet ?? undefined}
+                data-step={index}
+                data-step-id={step.id}
+                data-first={isFirst || undefined}
+                data-last={isLast || undefined}
+                style={{
+                    ...tooltipStyle,
+                    ...config.styles?.tooltip,
+                    opacity: tooltipStyle.opacity,
+                    visibility: tooltipStyle.visibility,
+                }}
+                {...(accessible && {
+                    role: 'dialog',
+                    'aria-modal': true,
+                    'aria-labelledby': titleId,
+                    'aria-describedby': contentId,
+                    tabIndex: -1,
+                })}
+            >
+                {TooltipComponent ? (
+                    <div style={{ position: 'relative' }}>
+                        {arrow}
+                        <TooltipComponent
+                            step={step}
+                            index={index}
+                            total={progress.total}
+                            placement={placement}
+                            isFirst={isFirst}
+                            isLast={isLast}
+                            progress={progress}
+                            titleId={titleId}
+                            contentId={contentId}
+                            locale={locale}
+                            next={next}
+                            back={back}
+                            skip={skip}
+                            close={stop}
+                            goTo={goTo}
+                            canAdvance={canAdvance}
+                            showHint={showHint}
+                            autoplayProgress={autoplayProgress}
                         />
-                    )}
-                    {config.showProgress && (
-                        <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px', fontWeight: '500' }}>
-                            Step {currentStep + 1} of {config.steps.length}
+                    </div>
+                ) : (
+                    <div {...slot('card')} style={{ position: 'relative', ...config.styles?.card }}>
+                        {arrow}
+                        {config.showProgress && (
+                            <div {...slot('progress')}>{locale.progress(progress.current, progress.total)}</div>
+                        )}
+                        {autoplayProgress !== null && (
+                            <div
+                                role="progressbar"
+                                aria-valuemin={0}
+                                aria-valuemax={100}
+                                aria-valuenow={Math.round(autoplayProgress * 100)}
+                                {...slot('progressBar')}
+                            >
+                                <span style={{ display: 'block', height: '100%', width: `${autoplayProgress * 100}%` }} />
+                            </div>
+                        )}
+                        <h3 id={titleId} {...slot('title')}>
+                            {step.title}
+                        </h3>
+                        <div id={contentId} {...slot('content')}>
+                            {step.content}
                         </div>
-                    )}
-                    <h3 style={{ margin: '0 0 12px 0', fontSize: '18px', fontWeight: '600', color: '#111' }}>
-                        {step.title}
-                    </h3>
-                    <p style={{ margin: '0 0 20px 0', fontSize: '14px', color: '#444', lineHeight: '1.6' }}>
-                        {step.content}
-                    </p>
-                    <div style={{ display: 'flex', gap: '8px', justifyContent: 'space-between', alignItems: 'center' }}>
-                        <div style={{ display: 'flex', gap: '8px' }}>
-                            {currentStep > 0 && (
-                                <button
-                                    onClick={onBack}
-                                    style={{
-                                        padding: '8px 16px',
-                                        borderRadius: '6px',
-                                        border: '1px solid #ddd',
-                                        background: 'white',
-                                        cursor: 'pointer',
-                                        fontSize: '14px',
-                                        fontWeight: '500',
-                                        transition: 'all 0.2s',
-                                        ...config.styles?.buttonBack,
-                                    }}
-                                    onMouseOver={(e) => {
-                                        e.currentTarget.style.background = '#f9fafb';
-                                    }}
-                                    onMouseOut={(e) => {
-                                        e.currentTarget.style.background = 'white';
-                                    }}
-                                >
-                                    Back
+                        {showHint && (
+                            <div role="status" {...slot('hint')}>
+                                {step.advanceOn?.hint}
+                            </div>
+                        )}
+                        <div {...slot('footer')}>
+                            <div {...slot('buttons')}>
+                                {!isFirst && (
+                                    <button onClick={back} {...slot('buttonBack')}>
+                                        {locale.back}
+                                    </button>
+                                )}
+                                {step.branches ? (
+                                    step.branches.map((branch, branchIndex) =>
+                                        renderNextButton(branch.label, () => goTo(branch.goTo), branchIndex)
+                                    )
+                                ) : (
+                                    nextButton !== 'hidden' &&
+                                    renderNextButton(isLast ? locale.finish : locale.next, next, undefined, !canAdvance)
+                                )}
+                            </div>
+                            {config.showSkipButton && (
+                                <button onClick={skip} {...slot('buttonSkip')}>
+                                    {locale.skip}
                                 </button>
                             )}
-                            <button
-                                onClick={onNext}
-                                style={{
-                                    padding: '8px 16px',
-                                    borderRadius: '6px',
-                                    border: 'none',
-                                    background: '#0066ff',
-                                    color: 'white',
-                                    cursor: 'pointer',
-                                    fontSize: '14px',
-                                    fontWeight: '500',
-                                    transition: 'all 0.2s',
-                                    ...config.styles?.buttonNext,
-                                }}
-                                onMouseOver={(e) => {
-                                    if (!config.styles?.buttonNext?.background) {
-                                        e.currentTarget.style.background = '#0052cc';
-                                    }
-                                }}
-                                onMouseOut={(e) => {
-                                    if (!config.styles?.buttonNext?.background) {
-                                        e.currentTarget.style.background = '#0066ff';
-                                    }
-                                }}
-                            >
-                                {currentStep === config.steps.length - 1 ? 'Finish' : 'Next'}
-                            </button>
                         </div>
-                        {config.showSkipButton && (
-                            <button
-                                onClick={onSkip}
-                                style={{
-                                    padding: '8px 16px',
-                                    borderRadius: '6px',
-                                    border: 'none',
-                                    background: 'transparent',
-                                    color: '#666',
-                                    cursor: 'pointer',
-                                    fontSize: '14px',
-                                    transition: 'all 0.2s',
-                                    ...config.styles?.buttonSkip,
-                                }}
-                                onMouseOver={(e) => {
-                                    e.currentTarget.style.color = '#333';
-                                }}
-                                onMouseOut={(e) => {
-                                    e.currentTarget.style.color = '#666';
-                                }}
-                            >
-                                Skip
-                            </button>
-                        )}
                     </div>
-                </div>
+                )}
             </div>
-        </>
+        </ThemeScope>
     );
 };
 
 export const useStartOnboarding = () => {
     const { start } = useOnboarding();
     return start;
+};
+
+// Callbacks are read through the registered proxy, so only a change in what the step renders counts
+const isSameValue = (a: unknown, b: unknown): boolean => {
+    if (a === b || (typeof a === 'function' && typeof b === 'function')) return true;
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+    if (React.isValidElement(a) || React.isValidElement(b)) {
+        return (
+            React.isValidElement(a) &&
+            React.isValidElement(b) &&
+            a.type === b.type &&
+            a.key === b.key &&
+            isSameValue(a.props, b.props)
+        );
+    }
+    const prototype = Object.getPrototypeOf(a);
+    if (prototype !== Object.getPrototypeOf(b) || (prototype !== Object.prototype && prototype !== Array.prototype)) {
+        return false;
+    }
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return (
+        keysA.length === keysB.length &&
+        keysA.every(
+            (key) =>
+                Object.prototype.hasOwnProperty.call(b, key) &&
+                isSameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+        )
+    );
+};
+
+export const useRegisterStep = (step: OnboardingStep & { id: string }, tourId: string = DEFAULT_TOUR_ID) => {
+    const { registerStep } = useOnboarding();
+    const stepRef = useRef(step);
+    stepRef.current = step;
+
+    // The registry holds a proxy, so callbacks and targets always come from the latest render
+    const [registered] = useState(
+        () =>
+            new Proxy({} as OnboardingStep, {
+                get: (_, key) => stepRef.current[key as keyof OnboardingStep],
+                has: (_, key) => key in stepRef.current,
+                ownKeys: () => Reflect.ownKeys(stepRef.current),
+                getOwnPropertyDescriptor: (_, key) => {
+                    const descriptor = Reflect.getOwnPropertyDescriptor(stepRef.current, key);
+                    return descriptor && { ...descriptor, configurable: true };
+                },
+            })
+    );
+
+    // Re-register when the rendered step changes so the tour picks up new titles, content and order
+    const renderedRef = useRef({ step, version: 0 });
+    if (!isSameValue(renderedRef.current.step, step)) {
+        renderedRef.current = { step, version: renderedRef.current.version + 1 };
+    }
+    const { version } = renderedRef.current;
+
+    useEffect(() => registerStep(tourId, registered), [registerStep, registered, tourId, version]);
 };
\ No newline at end of file
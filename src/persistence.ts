@@ -0,0 +1,153 @@
+export interface OnboardingStorageAdapter {
+    getItem: (key: string) => string | null | Promise<string | null>;
+    setItem: (key: string, value: string) => void | Promise<void>;
+    removeItem: (key: string) => void | Promise<void>;
+}
+
+export interface OnboardingPersistedState {
+    completed: boolean;
+    skipped: boolean;
+    lastStep: number;
+    updatedAt: number;
+}
+
+export interface OnboardingPersistenceConfig {
+    tourId: string;
+    storage?: OnboardingStorageAdapter | 'localStorage' | 'sessionStorage' | 'memory';
+    keyPrefix?: string;
+}
+
+const DEFAULT_KEY_PREFIX = 'rc-first-steps:';
+
+const createWebStorageAdapter = (getStorage: () => Storage | undefined): OnboardingStorageAdapter => ({
+    getItem: (key) => {
+        const storage = getStorage();
+        return storage ? storage.getItem(key) : null;
+    },
+    setItem: (key, value) => {
+        getStorage()?.setItem(key, value);
+    },
+    removeItem: (key) => {
+        getStorage()?.removeItem(key);
+    },
+});
+
+export const createLocalStorageAdapter = (): OnboardingStorageAdapter =>
+    createWebStorageAdapter(() => (typeof window !== 'undefined' ? window.localStorage : undefined));
+
+export const createSessionStorageAdapter = (): OnboardingStorageAdapter =>
+    createWebStorageAdapter(() => (typeof window !== 'undefined' ? window.sessionStorage : undefined));
+
+export const createMemoryAdapter = (): OnboardingStorageAdapter => {
+    const store = new Map<string, string>();
+    return {
+        getItem: (key) => (store.has(key) ? (store.get(key) as string) : null),
+        setItem: (key, value) => {
+            store.set(key, value);
+        },
+        removeItem: (key) => {
+            store.delete(key);
+        },
+    };
+};
+
+export interface OnboardingCookieOptions {
+    path?: string;
+    maxAge?: number;
+    sameSite?: 'Lax' | 'Strict' | 'None';
+    secure?: boolean;
+}
+
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+export const createCookieAdapter = ({
+    path = '/',
+    maxAge = ONE_YEAR,
+    sameSite = 'Lax',
+    secure = false,
+}: OnboardingCookieOptions = {}): OnboardingStorageAdapter => {
+    const write = (key: string, value: string, age: number) => {
+        if (typeof document === 'undefined') return;
+        document.cookie = [
+            `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+            `path=${path}`,
+            `max-age=${age}`,
+            `samesite=${sameSite}`,
+            ...(secure ? ['secure'] : []),
+        ].join('; ');
+    };
+
+    return {
+        getItem: (key) => {
+            if (typeof document === 'undefined') return null;
+            const name = `${encodeURIComponent(key)}=`;
+            const cookie = document.cookie.split('; ').find((entry) => entry.indexOf(name) === 0);
+            return cookie ? decodeURIComponent(cookie.slice(name.length)) : null;
+        },
+        setItem: (key, value) => write(key, value, maxAge),
+        removeItem: (key) => write(key, '', 0),
+    };
+};
+
+const memoryAdapter = createMemoryAdapter();
+
+export const resolveAdapter = (storage: OnboardingPersistenceConfig['storage']): OnboardingStorageAdapter => {
+    switch (storage) {
+        case undefined:
+        case 'localStorage':
+            return createLocalStorageAdapter();
+        case 'sessionStorage':
+            return createSessionStorageAdapter();
+        case 'memory':
+            return memoryAdapter;
+        default:
+            return storage;
+    }
+};
+
+export const getTourStateKey = (persistence: OnboardingPersistenceConfig) =>
+    `${persistence.keyPrefix ?? DEFAULT_KEY_PREFIX}${persistence.tourId}`;
+
+export const parseTourState = (raw: string | null | undefined): OnboardingPersistedState | null => {
+    if (!raw) return null;
+    try {
+        return JSON.parse(raw) as OnboardingPersistedState;
+    } catch {
+        try {
+            return JSON.parse(decodeURIComponent(raw)) as OnboardingPersistedState;
+        } catch {
+            return null;
+        }
+    }
+};
+
+export const loadTourState = async (
+    persistence: OnboardingPersistenceConfig
+): Promise<OnboardingPersistedState | null> => {
+    try {
+        const raw = await resolveAdapter(persistence.storage).getItem(getTourStateKey(persistence));
+        return raw ? (JSON.parse(raw) as OnboardingPersistedState) : null;
+    } catch (error) {
+        console.warn(`Onboarding: Failed to load state for tour "${persistence.tourId}"`, error);
+        return null;
+    }
+};
+
+export const saveTourState = async (
+    persistence: OnboardingPersistenceConfig,
+    state: OnboardingPersistedState
+): Promise<void> => {
+    try {
+        await resolveAdapter(persistence.storage).setItem(getTourStateKey(persistence), JSON.stringify(state));
+    } catch (error) {
+        console.warn(`Onboarding: Failed to save state for tour "${persistence.tourId}"`, error);
+    }
+};
+
+export const clearTourState = async (persistence: OnboardingPersistenceConfig): Promise<void> => {
+    try {
+        await resolveAdapter(persistence.storage).removeItem(getTourStateKey(persistence));
+    } catch (error) {
+        console.warn(`Onboarding: Failed to clear state for tour "${persistence.tourId}"`, error);
+    }
+};
@@ -0,0 +1,106 @@
+import { computePosition, parsePlacement } from './positioning';
+
+const tooltip = { width: 300, height: 150 };
+const viewport = { width: 1280, height: 800 };
+
+describe('computePosition', () => {
+    it('centers the tooltip below the target by default', () => {
+        const result = computePosition({ target: { top: 300, left: 500, width: 80, height: 40 }, tooltip, viewport });
+
+        expect(result).toEqual({
+            top: 356,
+            left: 390,
+            side: 'bottom',
+            placement: 'bottom',
+            arrow: { top: -12, left: 138, rotation: 0 },
+        });
+    });
+
+    it('keeps the tooltip inside the viewport padding', () => {
+        const result = computePosition({ target: { top: 100, left: 20, width: 80, height: 40 }, tooltip, viewport });
+
+        expect(result.left).toBe(16);
+        expect(result.arrow.left).toBe(32);
+    });
+
+    it('uses the preferred side when it fits', () => {
+        const target = { top: 300, left: 100, width: 80, height: 40 };
+
+        expect(computePosition({ target, tooltip, viewport, placement: 'top' })).toMatchObject({
+            top: 134,
+            side: 'top',
+            arrow: { top: 150, rotation: 180 },
+        });
+        expect(computePosition({ target, tooltip, viewport, placement: 'right' })).toMatchObject({
+            top: 245,
+            left: 196,
+            side: 'right',
+            arrow: { left: -18, rotation: -90 },
+        });
+    });
+
+    it('flips to another side when the preferred one has no room', () => {
+        const result = computePosition({
+            target: { top: 100, left: 500, width: 80, height: 40 },
+            tooltip,
+            viewport,
+            placement: 'top',
+        });
+
+        expect(result.side).toBe('bottom');
+        expect(result.placement).toBe('bottom');
+    });
+
+    it('aligns the tooltip to the start or end of the target', () => {
+        const target = { top: 300, left: 500, width: 80, height: 40 };
+
+        expect(computePosition({ target, tooltip, viewport, placement: 'bottom-start' })).toMatchObject({
+            left: 500,
+            placement: 'bottom-start',
+        });
+        expect(computePosition({ target, tooltip, viewport, placement: 'bottom-end' })).toMatchObject({
+            left: 280,
+            placement: 'bottom-end',
+        });
+    });
+
+    it('drops the alignment when the tooltip flips', () => {
+        const result = computePosition({
+            target: { top: 100, left: 500, width: 80, height: 40 },
+            tooltip,
+            viewport,
+            placement: 'top-start',
+        });
+
+        expect(result.placement).toBe('bottom');
+    });
+
+    it('falls back to the preferred side when nothing fits', () => {
+        const result = computePosition({
+            target: { top: 50, left: 50, width: 100, height: 100 },
+            tooltip,
+            viewport: { width: 200, height: 200 },
+            placement: 'bottom',
+        });
+
+        expect(result).toMatchObject({ top: 34, left: 16, side: 'bottom' });
+    });
+
+    it('honours a custom offset', () => {
+        const result = computePosition({
+            target: { top: 300, left: 500, width: 80, height: 40 },
+            tooltip,
+            viewport,
+            offset: 4,
+        });
+
+        expect(result.top).toBe(344);
+    });
+});
+
+describe('parsePlacement', () => {
+    it('splits the side from the alignment', () => {
+        expect(parsePlacement('left-end')).toEqual({ side: 'left', alignment: 'end' });
+        expect(parsePlacement('top')).toEqual({ side: 'top', alignment: undefined });
+    });
+});
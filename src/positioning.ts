@@ -0,0 +1,167 @@
+export type OnboardingPlacement = 'top' | 'bottom' | 'left' | 'right';
+
+export type OnboardingAlignment = 'start' | 'end';
+
+export type OnboardingPlacementVariant = OnboardingPlacement | `${OnboardingPlacement}-${OnboardingAlignment}`;
+
+export interface Rect {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+}
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+export interface PositionOptions {
+    target: Rect;
+    tooltip: Size;
+    viewport: Size;
+    placement?: OnboardingPlacementVariant | 'auto';
+    offset?: number;
+    viewportPadding?: number;
+    arrowSize?: number;
+}
+
+export interface PositionResult {
+    top: number;
+    left: number;
+    placement: OnboardingPlacementVariant;
+    side: OnboardingPlacement;
+    arrow: {
+        top: number;
+        left: number;
+        rotation: number;
+    };
+}
+
+export const DEFAULT_OFFSET = 16;
+export const DEFAULT_VIEWPORT_PADDING = 16;
+export const DEFAULT_ARROW_SIZE = 12;
+
+const SIDES: OnboardingPlacement[] = ['bottom', 'top', 'right', 'left'];
+
+const ARROW_ROTATION: Record<OnboardingPlacement, number> = {
+    top: 180,
+    bottom: 0,
+    left: 90,
+    right: -90,
+};
+
+export const parsePlacement = (
+    placement: OnboardingPlacementVariant
+): { side: OnboardingPlacement; alignment?: OnboardingAlignment } => {
+    const [side, alignment] = placement.split('-') as [OnboardingPlacement, OnboardingAlignment | undefined];
+    return { side, alignment };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+const getCoords = (
+    target: Rect,
+    tooltip: Size,
+    side: OnboardingPlacement,
+    alignment: OnboardingAlignment | undefined,
+    offset: number
+) => {
+    const right = target.left + target.width;
+    const bottom = target.top + target.height;
+
+    if (side === 'top' || side === 'bottom') {
+        const left =
+            alignment === 'start'
+                ? target.left
+                : alignment === 'end'
+                  ? right - tooltip.width
+                  : target.left + target.width / 2 - tooltip.width / 2;
+        const top = side === 'top' ? target.top - tooltip.height - offset : bottom + offset;
+        return { top, left };
+    }
+
+    const top =
+        alignment === 'start'
+            ? target.top
+            : alignment === 'end'
+              ? bottom - tooltip.height
+              : target.top + target.height / 2 - tooltip.height / 2;
+    const left = side === 'left' ? target.left - tooltip.width - offset : right + offset;
+    return { top, left };
+};
+
+export const computePosition = ({
+    target,
+    tooltip,
+    viewport,
+    placement = 'auto',
+    offset = DEFAULT_OFFSET,
+    viewportPadding = DEFAULT_VIEWPORT_PADDING,
+    arrowSize = DEFAULT_ARROW_SIZE,
+}: PositionOptions): PositionResult => {
+    const preferred = placement === 'auto' ? undefined : parsePlacement(placement);
+    const sides = preferred ? [preferred.side, ...SIDES.filter((side) => side !== preferred.side)] : SIDES;
+    const alignment = preferred?.alignment;
+
+    const clampToViewport = ({ top, left }: { top: number; left: number }) => ({
+        top: clamp(top, viewportPadding, viewport.height - tooltip.height - viewportPadding),
+        left: clamp(left, viewportPadding, viewport.width - tooltip.width - viewportPadding),
+    });
+
+    const fitsInViewport = (top: number, left: number) =>
+        top >= viewportPadding &&
+        left >= viewportPadding &&
+        top + tooltip.height <= viewport.height - viewportPadding &&
+        left + tooltip.width <= viewport.width - viewportPadding;
+
+    const overlapsTarget = (top: number, left: number) =>
+        !(
+            top > target.top + target.height ||
+            top + tooltip.height < target.top ||
+            left > target.left + target.width ||
+            left + tooltip.width < target.left
+        );
+
+    let chosen: { top: number; left: number; side: OnboardingPlacement } | undefined;
+
+    for (const side of sides) {
+        const coords = clampToViewport(getCoords(target, tooltip, side, alignment, offset));
+        if (!overlapsTarget(coords.top, coords.left) && fitsInViewport(coords.top, coords.left)) {
+            chosen = { ...coords, side };
+            break;
+        }
+    }
+
+    if (!chosen) {
+        const side = sides[0];
+        chosen = { ...clampToViewport(getCoords(target, tooltip, side, alignment, offset * 2)), side };
+    }
+
+    const { top, left, side } = chosen;
+    const arrow = { top: 0, left: 0, rotation: ARROW_ROTATION[side] };
+
+    if (side === 'top' || side === 'bottom') {
+        arrow.top = side === 'top' ? tooltip.height : -arrowSize;
+        arrow.left = clamp(
+            target.left + target.width / 2 - left - arrowSize,
+            arrowSize,
+            tooltip.width - arrowSize * 3
+        );
+    } else {
+        arrow.left = side === 'left' ? tooltip.width - arrowSize / 2 : -arrowSize * 1.5;
+        arrow.top = clamp(
+            target.top + target.height / 2 - top - arrowSize / 2,
+            arrowSize,
+            tooltip.height - arrowSize * 2
+        );
+    }
+
+    return {
+        top,
+        left,
+        side,
+        placement: alignment && side === preferred?.side ? `${side}-${alignment}` : side,
+        arrow,
+    };
+};
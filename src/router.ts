@@ -0,0 +1,102 @@
+export type OnboardingRouteMatcher = RegExp | ((path: string) => boolean);
+
+export type OnboardingRoute = string | { path: string; match?: OnboardingRouteMatcher };
+
+export interface OnboardingRouterAdapter {
+    getPath: () => string;
+    navigate: (path: string) => void | Promise<void>;
+    subscribe?: (listener: (path: string) => void) => () => void;
+}
+
+export const getRoutePath = (route: OnboardingRoute): string => {
+    return typeof route === 'string' ? route : route.path;
+};
+
+export const matchRoute = (route: OnboardingRoute, path: string): boolean => {
+    const pathname = path.split(/[?#]/)[0];
+
+    if (typeof route === 'string' || !route.match) {
+        return pathname === getRoutePath(route).split(/[?#]/)[0];
+    }
+    if (route.match instanceof RegExp) {
+        return route.match.test(pathname);
+    }
+    return route.match(pathname);
+};
+
+export const createHistoryRouter = (): OnboardingRouterAdapter => {
+    const listeners = new Set<(path: string) => void>();
+    const getPath = () =>
+        typeof window === 'undefined' ? '/' : window.location.pathname + window.location.search;
+
+    return {
+        getPath,
+        navigate: (path) => {
+            window.history.pushState(null, '', path);
+            listeners.forEach((listener) => listener(getPath()));
+        },
+        subscribe: (listener) => {
+            const handlePopState = () => listener(getPath());
+            listeners.add(listener);
+            window.addEventListener('popstate', handlePopState);
+            return () => {
+                listeners.delete(listener);
+                window.removeEventListener('popstate', handlePopState);
+            };
+        },
+    };
+};
+
+interface NextAppRouterLike {
+    push: (href: string) => void;
+}
+
+// Pass `useRouter()` from `next/navigation` and `usePathname()`; re-create the adapter on every render.
+export const createNextAppRouter = ({
+    router,
+    pathname,
+}: {
+    router: NextAppRouterLike;
+    pathname: string;
+}): OnboardingRouterAdapter => ({
+    getPath: () => pathname,
+    navigate: (path) => router.push(path),
+});
+
+interface NextPagesRouterLike {
+    asPath: string;
+    push: (url: string) => Promise<boolean>;
+    events: {
+        on: (event: 'routeChangeComplete', handler: (url: string) => void) => void;
+        off: (event: 'routeChangeComplete', handler: (url: string) => void) => void;
+    };
+}
+
+// Pass `useRouter()` from `next/router`.
+export const createNextPagesRouter = (router: NextPagesRouterLike): OnboardingRouterAdapter => ({
+    getPath: () => router.asPath,
+    navigate: async (path) => {
+        await router.push(path);
+    },
+    subscribe: (listener) => {
+        router.events.on('routeChangeComplete', listener);
+        return () => router.events.off('routeChangeComplete', listener);
+    },
+});
+
+interface ReactRouterLocationLike {
+    pathname: string;
+    search?: string;
+}
+
+// Pass `useNavigate()` and `useLocation()` from `react-router`; re-create the adapter on every render.
+export const createReactRouter = ({
+    navigate,
+    location,
+}: {
+    navigate: (to: string) => void | Promise<void>;
+    location: ReactRouterLocationLike;
+}): OnboardingRouterAdapter => ({
+    getPath: () => location.pathname + (location.search ?? ''),
+    navigate: (path) => navigate(path),
+});
@@ -0,0 +1,145 @@
+import { TOUR_SCHEMA_VERSION, loadTour, parseTour, validateTour } from './schema';
+import { themes } from './themes';
+
+const tour = {
+    version: TOUR_SCHEMA_VERSION,
+    title: 'Getting started',
+    steps: [
+        { id: 'upload', title: 'Upload files', content: 'Drop your CSV here.' },
+        { target: '#reports', title: 'Reports', content: 'Your charts live here.', next: 'upload' },
+    ],
+};
+
+const errorsOf = (definition: unknown) => validateTour(definition).errors;
+
+describe('validateTour', () => {
+    it('accepts a valid definition', () => {
+        expect(validateTour(tour)).toEqual({ valid: true, errors: [] });
+    });
+
+    it('requires a supported version', () => {
+        expect(errorsOf({ ...tour, version: undefined })).toEqual([
+            { path: 'version', message: `is required (current version is ${TOUR_SCHEMA_VERSION})` },
+        ]);
+        expect(errorsOf({ ...tour, version: 2 })).toEqual([
+            { path: 'version', message: `unsupported version 2 (expected ${TOUR_SCHEMA_VERSION})` },
+        ]);
+    });
+
+    it('rejects anything but an object', () => {
+        expect(errorsOf('tour')).toEqual([{ path: '', message: 'tour definition must be an object' }]);
+    });
+
+    it('reports unknown properties and wrong types by path', () => {
+        expect(errorsOf({ ...tour, title: 1, color: 'red', options: { showProgress: 'yes' } })).toEqual([
+            { path: 'color', message: 'is not a known property' },
+            { path: 'title', message: 'must be a string (got 1)' },
+            { path: 'options.showProgress', message: 'must be a boolean (got "yes")' },
+        ]);
+    });
+
+    it('requires steps', () => {
+        expect(errorsOf({ ...tour, steps: [] })).toEqual([{ path: 'steps', message: 'must contain at least one step' }]);
+        expect(errorsOf({ ...tour, steps: undefined })).toEqual([
+            { path: 'steps', message: 'must be an array of steps' },
+        ]);
+    });
+
+    it('checks each step', () => {
+        const errors = errorsOf({
+            ...tour,
+            steps: [
+                { title: 'No target', content: '...' },
+                { id: 'a', target: [], title: '', content: '...', placement: 'middle' },
+                { id: 'a', target: null, title: 'Centered', content: '...', idleAction: 'stop' },
+            ],
+        });
+
+        expect(errors).toEqual([
+            { path: 'steps[0].target', message: 'is required when the step has no id to anchor to' },
+            { path: 'steps[1].title', message: 'is required' },
+            { path: 'steps[1].target', message: 'must not be empty' },
+            {
+                path: 'steps[1].placement',
+                message: expect.stringContaining('must be one of auto, top, bottom, left, right'),
+            },
+            { path: 'steps[2].idleAction', message: 'is not a known property' },
+            { path: 'steps[2].id', message: 'duplicate step id "a" (also used by steps[1])' },
+        ]);
+    });
+
+    it('checks step references in next and branches', () => {
+        const errors = errorsOf({
+            ...tour,
+            steps: [
+                { id: 'a', title: 'A', content: '...', next: 'missing' },
+                { id: 'b', title: 'B', content: '...', branches: [{ label: 'Go', goTo: 5 }, { goTo: 'a' }] },
+            ],
+        });
+
+        expect(errors).toEqual([
+            { path: 'steps[0].next', message: 'refers to unknown step id "missing"' },
+            { path: 'steps[1].branches[0].goTo', message: 'must be a step index between 0 and 1 (got 5)' },
+            { path: 'steps[1].branches[1].label', message: 'is required' },
+        ]);
+    });
+
+    it('accepts the serializable options', () => {
+        expect(
+            errorsOf({
+                ...tour,
+                options: {
+                    autoplay: true,
+                    autoplayDuration: 4000,
+                    idleTimeout: 30000,
+                    idleAction: 'minimize',
+                    persistence: { tourId: 'first-run', storage: 'memory' },
+                },
+            })
+        ).toEqual([]);
+        expect(errorsOf({ ...tour, options: { idleAction: 'hide' } })).toEqual([
+            { path: 'options.idleAction', message: 'must be one of stop, minimize (got "hide")' },
+        ]);
+    });
+});
+
+describe('loadTour', () => {
+    it('returns an OnboardingConfig', () => {
+        const config = loadTour({
+            ...tour,
+            theme: 'dark',
+            locale: { next: 'Continue', progress: '{current} / {total}' },
+            options: { showProgress: true },
+        });
+
+        expect(config).toMatchObject({ title: 'Getting started', showProgress: true, theme: themes.dark });
+        expect(config.steps).toEqual(tour.steps.map((step) => ({ ...step, locale: undefined })));
+        expect(config.locale?.next).toBe('Continue');
+        expect(config.locale?.progress?.(2, 5)).toBe('2 / 5');
+    });
+
+    it('applies overrides for the parts that are code', () => {
+        const onComplete = jest.fn();
+        const config = loadTour(tour, { title: 'Tour', onComplete } as never);
+
+        expect(config).toMatchObject({ title: 'Tour', onComplete });
+    });
+
+    it('throws every validation error at once', () => {
+        expect(() => loadTour({ ...tour, version: 2, steps: [] })).toThrow(
+            'Onboarding: Invalid tour definition\n' +
+                '  - version: unsupported version 2 (expected 1)\n' +
+                '  - steps: must contain at least one step'
+        );
+    });
+});
+
+describe('parseTour', () => {
+    it('loads a JSON string', () => {
+        expect(parseTour(JSON.stringify(tour)).steps).toHaveLength(2);
+    });
+
+    it('reports invalid JSON', () => {
+        expect(() => parseTour('{ version: 1 }')).toThrow('Onboarding: Tour definition is not valid JSON');
+    });
+});
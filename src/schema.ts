@@ -0,0 +1,442 @@
+import type { OnboardingConfig, OnboardingStep } from './onboarding';
+import { OnboardingLocale } from './locale';
+import { OnboardingThemeOverrides, OnboardingThemeSetting, createTheme, themes } from './themes';
+
+export const TOUR_SCHEMA_VERSION = 1;
+
+export type SerializedThemeName = keyof typeof themes | 'auto';
+
+export type SerializedTheme = SerializedThemeName | (OnboardingThemeOverrides & { extends?: keyof typeof themes });
+
+export interface SerializedLocale extends Partial<Omit<OnboardingLocale, 'progress'>> {
+    progress?: string;
+}
+
+export interface SerializedStep {
+    id?: string;
+    target?: string | string[] | null;
+    title: string;
+    content: string;
+    order?: number;
+    placement?: OnboardingStep['placement'];
+    offset?: number;
+    disableBeacon?: boolean;
+    spotlightClicks?: boolean;
+    spotlightShape?: OnboardingStep['spotlightShape'];
+    spotlightPadding?: OnboardingStep['spotlightPadding'];
+    targetTimeout?: number;
+    targetNotFoundAction?: OnboardingStep['targetNotFoundAction'];
+    duration?: number;
+    route?: string;
+    next?: string | number;
+    branches?: { label: string; goTo: string | number }[];
+    locale?: SerializedLocale;
+}
+
+export interface SerializedTour {
+    version: typeof TOUR_SCHEMA_VERSION;
+    id?: string;
+    title?: string;
+    theme?: SerializedTheme;
+    locale?: SerializedLocale;
+    options?: Pick<
+        OnboardingConfig,
+        | 'showProgress'
+        | 'showSkipButton'
+        | 'scrollToSteps'
+        | 'scrollOffset'
+        | 'disableOverlay'
+        | 'spotlightPadding'
+        | 'spotlightShape'
+        | 'spotlightRadius'
+        | 'overlayClickAction'
+        | 'offset'
+        | 'beacon'
+        | 'targetTimeout'
+        | 'targetNotFoundAction'
+        | 'accessible'
+        | 'disableScrolling'
+        | 'autoplay'
+        | 'autoplayDuration'
+        | 'idleTimeout'
+        | 'idleAction'
+    > & {
+        persistence?: { tourId: string; storage?: 'localStorage' | 'sessionStorage' | 'memory'; keyPrefix?: string };
+    };
+    steps: SerializedStep[];
+}
+
+export interface OnboardingValidationError {
+    path: string;
+    message: string;
+}
+
+export interface OnboardingValidationResult {
+    valid: boolean;
+    errors: OnboardingValidationError[];
+}
+
+const SIDES = ['top', 'bottom', 'left', 'right'];
+const PLACEMENTS = [
+    'auto',
+    ...SIDES,
+    ...SIDES.map((side) => `${side}-start`),
+    ...SIDES.map((side) => `${side}-end`),
+];
+const SHAPES = ['rect', 'rounded-rect', 'circle'];
+const NOT_FOUND_ACTIONS = ['skip', 'center', 'stop'];
+const OVERLAY_CLICK_ACTIONS = ['skip', 'next', 'none'];
+const STORAGES = ['localStorage', 'sessionStorage', 'memory'];
+const IDLE_ACTIONS = ['stop', 'minimize'];
+const THEME_NAMES = Object.keys(themes);
+const THEME_GROUPS = Object.keys(themes.light);
+
+const TOUR_KEYS = ['version', 'id', 'title', 'theme', 'locale', 'options', 'steps'];
+const STEP_KEYS = [
+    'id',
+    'target',
+    'title',
+    'content',
+    'order',
+    'placement',
+    'offset',
+    'disableBeacon',
+    'spotlightClicks',
+    'spotlightShape',
+    'spotlightPadding',
+    'targetTimeout',
+    'targetNotFoundAction',
+    'duration',
+    'route',
+    'next',
+    'branches',
+    'locale',
+];
+const LOCALE_KEYS = [
+    'back',
+    'next',
+    'finish',
+    'skip',
+    'openHint',
+    'dismiss',
+    'checklist',
+    'start',
+    'resume',
+    'done',
+    'progress',
+    'dir',
+];
+const BOOLEAN_OPTIONS = [
+    'showProgress',
+    'showSkipButton',
+    'scrollToSteps',
+    'disableOverlay',
+    'disableScrolling',
+    'beacon',
+    'accessible',
+    'autoplay',
+];
+const NUMBER_OPTIONS = ['scrollOffset', 'spotlightRadius', 'offset', 'targetTimeout', 'autoplayDuration', 'idleTimeout'];
+const OPTION_KEYS = [
+    ...BOOLEAN_OPTIONS,
+    ...NUMBER_OPTIONS,
+    'spotlightPadding',
+    'spotlightShape',
+    'overlayClickAction',
+    'targetNotFoundAction',
+    'idleAction',
+    'persistence',
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => (typeof value === 'string' ? `"${value}"` : JSON.stringify(value));
+
+const createValidator = () => {
+    const errors: OnboardingValidationError[] = [];
+
+    const report = (path: string, message: string) => {
+        errors.push({ path, message });
+    };
+
+    const checkKeys = (value: Record<string, unknown>, allowed: string[], path: string) => {
+        Object.keys(value).forEach((key) => {
+            if (allowed.indexOf(key) === -1) {
+                report(path ? `${path}.${key}` : key, 'is not a known property');
+            }
+        });
+    };
+
+    const checkType = (value: unknown, type: 'string' | 'number' | 'boolean', path: string) => {
+        if (value !== undefined && typeof value !== type) {
+            report(path, `must be a ${type} (got ${describe(value)})`);
+        }
+    };
+
+    const checkOneOf = (value: unknown, allowed: string[], path: string) => {
+        if (value !== undefined && allowed.indexOf(value as string) === -1) {
+            report(path, `must be one of ${allowed.join(', ')} (got ${describe(value)})`);
+        }
+    };
+
+    const checkPadding = (value: unknown, path: string) => {
+        if (value === undefined || typeof value === 'number') return;
+        if (!isObject(value)) {
+            report(path, `must be a number or an object with top, right, bottom and left (got ${describe(value)})`);
+            return;
+        }
+        checkKeys(value, ['top', 'right', 'bottom', 'left'], path);
+        Object.keys(value).forEach((side) => checkType(value[side], 'number', `${path}.${side}`));
+    };
+
+    const checkLocale = (value: unknown, path: string) => {
+        if (value === undefined) return;
+        if (!isObject(value)) {
+            report(path, 'must be an object');
+            return;
+        }
+        checkKeys(value, LOCALE_KEYS, path);
+        LOCALE_KEYS.forEach((key) => {
+            if (key === 'dir') {
+                checkOneOf(value.dir, ['ltr', 'rtl'], `${path}.dir`);
+            } else {
+                checkType(value[key], 'string', `${path}.${key}`);
+            }
+        });
+    };
+
+    const checkTheme = (value: unknown, path: string) => {
+        if (value === undefined) return;
+        if (typeof value === 'string') {
+            checkOneOf(value, [...THEME_NAMES, 'auto'], path);
+            return;
+        }
+        if (!isObject(value)) {
+            report(path, `must be a theme name or an object of token overrides (got ${describe(value)})`);
+            return;
+        }
+        checkKeys(value, ['extends', ...THEME_GROUPS], path);
+        checkOneOf(value.extends, THEME_NAMES, `${path}.extends`);
+        THEME_GROUPS.forEach((group) => {
+            const tokens = value[group];
+            if (tokens === undefined) return;
+            if (!isObject(tokens)) {
+                report(`${path}.${group}`, 'must be an object');
+                return;
+            }
+            checkKeys(tokens, Object.keys(themes.light[group as keyof typeof themes.light]), `${path}.${group}`);
+        });
+    };
+
+    const checkOptions = (value: unknown, path: string) => {
+        if (value === undefined) return;
+        if (!isObject(value)) {
+            report(path, 'must be an object');
+            return;
+        }
+        checkKeys(value, OPTION_KEYS, path);
+        BOOLEAN_OPTIONS.forEach((key) => checkType(value[key], 'boolean', `${path}.${key}`));
+        NUMBER_OPTIONS.forEach((key) => checkType(value[key], 'number', `${path}.${key}`));
+        checkPadding(value.spotlightPadding, `${path}.spotlightPadding`);
+        checkOneOf(value.spotlightShape, SHAPES, `${path}.spotlightShape`);
+        checkOneOf(value.overlayClickAction, OVERLAY_CLICK_ACTIONS, `${path}.overlayClickAction`);
+        checkOneOf(value.targetNotFoundAction, NOT_FOUND_ACTIONS, `${path}.targetNotFoundAction`);
+        checkOneOf(value.idleAction, IDLE_ACTIONS, `${path}.idleAction`);
+
+        const persistence = value.persistence;
+        if (persistence === undefined) return;
+        if (!isObject(persistence)) {
+            report(`${path}.persistence`, 'must be an object');
+            return;
+        }
+        checkKeys(persistence, ['tourId', 'storage', 'keyPrefix'], `${path}.persistence`);
+        if (persistence.tourId === undefined) {
+            report(`${path}.persistence.tourId`, 'is required');
+        }
+        checkType(persistence.tourId, 'string', `${path}.persistence.tourId`);
+        checkOneOf(persistence.storage, STORAGES, `${path}.persistence.storage`);
+        checkType(persistence.keyPrefix, 'string', `${path}.persistence.keyPrefix`);
+    };
+
+    const checkStepRef = (value: unknown, ids: Record<string, number>, count: number, path: string) => {
+        if (value === undefined) return;
+        if (typeof value === 'number') {
+            if (value < 0 || value >= count || Math.floor(value) !== value) {
+                report(path, `must be a step index between 0 and ${count - 1} (got ${value})`);
+            }
+        } else if (typeof value === 'string') {
+            if (!(value in ids)) {
+                report(path, `refers to unknown step id ${describe(value)}`);
+            }
+        } else {
+            report(path, `must be a step id or index (got ${describe(value)})`);
+        }
+    };
+
+    const checkStep = (step: unknown, path: string) => {
+        if (!isObject(step)) {
+            report(path, 'must be an object');
+            return;
+        }
+        checkKeys(step, STEP_KEYS, path);
+
+        ['title', 'content'].forEach((key) => {
+            if (step[key] === undefined || step[key] === '') {
+                report(`${path}.${key}`, 'is required');
+            } else {
+                checkType(step[key], 'string', `${path}.${key}`);
+            }
+        });
+
+        if (step.target === undefined && step.id === undefined) {
+            report(`${path}.target`, 'is required when the step has no id to anchor to');
+        } else if (step.target !== undefined && step.target !== null) {
+            const selectors = Array.isArray(step.target) ? step.target : [step.target];
+            if (selectors.length === 0) {
+                report(`${path}.target`, 'must not be empty');
+            }
+            selectors.forEach((selector, index) => {
+                const selectorPath = Array.isArray(step.target) ? `${path}.target[${index}]` : `${path}.target`;
+                if (typeof selector !== 'string' || selector.trim() === '') {
+                    report(selectorPath, `must be a CSS selector (got ${describe(selector)})`);
+                }
+            });
+        }
+
+        checkType(step.id, 'string', `${path}.id`);
+        checkType(step.order, 'number', `${path}.order`);
+        checkOneOf(step.placement, PLACEMENTS, `${path}.placement`);
+        checkType(step.offset, 'number', `${path}.offset`);
+        checkType(step.disableBeacon, 'boolean', `${path}.disableBeacon`);
+        checkType(step.spotlightClicks, 'boolean', `${path}.spotlightClicks`);
+        checkOneOf(step.spotlightShape, SHAPES, `${path}.spotlightShape`);
+        checkPadding(step.spotlightPadding, `${path}.spotlightPadding`);
+        checkType(step.targetTimeout, 'number', `${path}.targetTimeout`);
+        checkOneOf(step.targetNotFoundAction, NOT_FOUND_ACTIONS, `${path}.targetNotFoundAction`);
+        checkType(step.duration, 'number', `${path}.duration`);
+        checkType(step.route, 'string', `${path}.route`);
+        checkLocale(step.locale, `${path}.locale`);
+    };
+
+    const checkTour = (tour: unknown) => {
+        if (!isObject(tour)) {
+            report('', 'tour definition must be an object');
+            return;
+        }
+        checkKeys(tour, TOUR_KEYS, '');
+
+        if (tour.version === undefined) {
+            report('version', `is required (current version is ${TOUR_SCHEMA_VERSION})`);
+        } else if (tour.version !== TOUR_SCHEMA_VERSION) {
+            report('version', `unsupported version ${describe(tour.version)} (expected ${TOUR_SCHEMA_VERSION})`);
+        }
+        checkType(tour.id, 'string', 'id');
+        checkType(tour.title, 'string', 'title');
+        checkTheme(tour.theme, 'theme');
+        checkLocale(tour.locale, 'locale');
+        checkOptions(tour.options, 'options');
+
+        if (!Array.isArray(tour.steps)) {
+            report('steps', 'must be an array of steps');
+            return;
+        }
+        if (tour.steps.length === 0) {
+            report('steps', 'must contain at least one step');
+        }
+
+        const steps: unknown[] = tour.steps;
+        const ids: Record<string, number> = {};
+        steps.forEach((step, index) => {
+            checkStep(step, `steps[${index}]`);
+            if (!isObject(step) || typeof step.id !== 'string') return;
+            if (step.id in ids) {
+                report(`steps[${index}].id`, `duplicate step id ${describe(step.id)} (also used by steps[${ids[step.id]}])`);
+            } else {
+                ids[step.id] = index;
+            }
+        });
+
+        steps.forEach((step, index) => {
+            if (!isObject(step)) return;
+            checkStepRef(step.next, ids, steps.length, `steps[${index}].next`);
+            if (step.branches === undefined) return;
+            if (!Array.isArray(step.branches)) {
+                report(`steps[${index}].branches`, 'must be an array');
+                return;
+            }
+            step.branches.forEach((branch: unknown, branchIndex: number) => {
+                const path = `steps[${index}].branches[${branchIndex}]`;
+                if (!isObject(branch)) {
+                    report(path, 'must be an object with label and goTo');
+                    return;
+                }
+                checkKeys(branch, ['label', 'goTo'], path);
+                if (branch.label === undefined) {
+                    report(`${path}.label`, 'is required');
+                }
+                checkType(branch.label, 'string', `${path}.label`);
+                if (branch.goTo === undefined) {
+                    report(`${path}.goTo`, 'is required');
+                }
+                checkStepRef(branch.goTo, ids, steps.length, `${path}.goTo`);
+            });
+        });
+    };
+
+    return { errors, checkTour };
+};
+
+export const validateTour = (tour: unknown): OnboardingValidationResult => {
+    const { errors, checkTour } = createValidator();
+    checkTour(tour);
+    return { valid: errors.length === 0, errors };
+};
+
+export const formatValidationErrors = (errors: OnboardingValidationError[]): string =>
+    errors.map(({ path, message }) => `  - ${path ? `${path}: ` : ''}${message}`).join('\n');
+
+const toLocale = (locale: SerializedLocale | undefined): Partial<OnboardingLocale> | undefined => {
+    if (!locale) return undefined;
+    const { progress, ...strings } = locale;
+    if (progress === undefined) return strings;
+    return {
+        ...strings,
+        progress: (current, total) =>
+            progress.replace(/\{current\}/g, String(current)).replace(/\{total\}/g, String(total)),
+    };
+};
+
+const toTheme = (theme: SerializedTheme | undefined): OnboardingThemeSetting | undefined => {
+    if (theme === undefined || theme === 'auto') return theme;
+    if (typeof theme === 'string') return themes[theme];
+    const { extends: base, ...overrides } = theme;
+    return createTheme(overrides, themes[base ?? 'light']);
+};
+
+export const loadTour = (tour: unknown, overrides?: Partial<Omit<OnboardingConfig, 'steps'>>): OnboardingConfig => {
+    const { valid, errors } = validateTour(tour);
+    if (!valid) {
+        throw new Error(`Onboarding: Invalid tour definition\n${formatValidationErrors(errors)}`);
+    }
+
+    const { title, theme, locale, options, steps } = tour as SerializedTour;
+    return {
+        ...options,
+        title,
+        theme: toTheme(theme),
+        locale: toLocale(locale),
+        ...overrides,
+        steps: steps.map(({ locale: stepLocale, ...step }) => ({ ...step, locale: toLocale(stepLocale) })),
+    };
+};
+
+export const parseTour = (json: string, overrides?: Partial<Omit<OnboardingConfig, 'steps'>>): OnboardingConfig => {
+    let tour: unknown;
+    try {
+        tour = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`Onboarding: Tour definition is not valid JSON (${(error as Error).message})`);
+    }
+    return loadTour(tour, overrides);
+};
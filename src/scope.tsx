@@ -0,0 +1,53 @@
+import React, { ReactNode, useEffect, useId, useState } from 'react';
+import { OnboardingTheme, OnboardingThemeSetting, resolveTheme, themeToCssVariables } from './themes';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+export const useMediaQuery = (query: string | null) => {
+    const [matches, setMatches] = useState(
+        () => !!query && typeof window !== 'undefined' && !!window.matchMedia?.(query).matches
+    );
+
+    useEffect(() => {
+        if (!query || typeof window === 'undefined' || !window.matchMedia) {
+            setMatches(false);
+            return;
+        }
+
+        const list = window.matchMedia(query);
+        const handleChange = () => setMatches(list.matches);
+        handleChange();
+        list.addEventListener('change', handleChange);
+        return () => list.removeEventListener('change', handleChange);
+    }, [query]);
+
+    return matches;
+};
+
+export const usePrefersDarkMode = (enabled: boolean) => useMediaQuery(enabled ? DARK_QUERY : null);
+
+export const useOnboardingTheme = (setting: OnboardingThemeSetting | undefined): OnboardingTheme => {
+    const followsScheme = setting === 'auto' || (typeof setting === 'object' && 'light' in setting && 'dark' in setting);
+    const prefersDark = usePrefersDarkMode(followsScheme);
+    return resolveTheme(setting, prefersDark);
+};
+
+interface ThemeScopeProps {
+    theme: OnboardingTheme;
+    children: ReactNode;
+}
+
+export const ThemeScope: React.FC<ThemeScopeProps> = ({ theme, children }) => {
+    const id = useId();
+    const variables = themeToCssVariables(theme);
+    const declarations = Object.keys(variables)
+        .map((name) => `${name}: ${variables[name]};`)
+        .join(' ');
+
+    return (
+        <div data-rc-first-steps={id} style={{ display: 'contents' }}>
+            <style>{`:where([data-rc-first-steps="${id}"]) { ${declarations} }`}</style>
+            {children}
+        </div>
+    );
+};
@@ -0,0 +1,3 @@
+export { getTourStateKey, parseTourState } from './persistence';
+
+export type { OnboardingPersistedState, OnboardingPersistenceConfig } from './persistence';
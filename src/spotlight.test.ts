@@ -0,0 +1,22 @@
+import { getSpotlightHole } from './spotlight';
+
+const rect = { top: 100, left: 100, width: 10, height: 10 };
+
+describe('getSpotlightHole', () => {
+    it('pads the target by 8px by default', () => {
+        expect(getSpotlightHole(rect, undefined)).toMatchObject({ top: 92, left: 92, width: 26, height: 26 });
+    });
+
+    it('keeps a padding of 0', () => {
+        expect(getSpotlightHole(rect, 0)).toMatchObject({ top: 100, left: 100, width: 10, height: 10 });
+    });
+
+    it('takes padding per side', () => {
+        expect(getSpotlightHole(rect, { top: 0, left: 4 })).toMatchObject({ top: 100, left: 96, width: 22, height: 18 });
+    });
+
+    it('draws a circle around the target', () => {
+        const hole = getSpotlightHole({ top: 0, left: 0, width: 30, height: 40 }, 0, 'circle');
+        expect(hole).toEqual({ top: -5, left: -10, width: 50, height: 50, radius: 25 });
+    });
+});
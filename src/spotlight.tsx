@@ -0,0 +1,148 @@
+import React from 'react';
+import { vars } from './themes';
+
+export type SpotlightShape = 'rect' | 'rounded-rect' | 'circle';
+
+export type SpotlightPadding = number | { top?: number; right?: number; bottom?: number; left?: number };
+
+export type OverlayClickAction = 'skip' | 'next' | 'none';
+
+export interface SpotlightHole {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+    radius: number;
+}
+
+export const DEFAULT_SPOTLIGHT_PADDING = 8;
+export const DEFAULT_SPOTLIGHT_RADIUS = 8;
+
+const resolvePadding = (padding: SpotlightPadding | undefined) => {
+    if (typeof padding === 'number' || padding === undefined) {
+        const value = padding ?? DEFAULT_SPOTLIGHT_PADDING;
+        return { top: value, right: value, bottom: value, left: value };
+    }
+    return {
+        top: padding.top ?? DEFAULT_SPOTLIGHT_PADDING,
+        right: padding.right ?? DEFAULT_SPOTLIGHT_PADDING,
+        bottom: padding.bottom ?? DEFAULT_SPOTLIGHT_PADDING,
+        left: padding.left ?? DEFAULT_SPOTLIGHT_PADDING,
+    };
+};
+
+export const getSpotlightHole = (
+    rect: { top: number; left: number; width: number; height: number },
+    padding: SpotlightPadding | undefined,
+    shape: SpotlightShape = 'rounded-rect',
+    radius = DEFAULT_SPOTLIGHT_RADIUS
+): SpotlightHole => {
+    const { top, right, bottom, left } = resolvePadding(padding);
+
+    if (shape === 'circle') {
+        const size = Math.hypot(rect.width, rect.height) + Math.max(top, right, bottom, left) * 2;
+        return {
+            top: rect.top + rect.height / 2 - size / 2,
+            left: rect.left + rect.width / 2 - size / 2,
+            width: size,
+            height: size,
+            radius: size / 2,
+        };
+    }
+
+    const width = rect.width + left + right;
+    const height = rect.height + top + bottom;
+    return {
+        top: rect.top - top,
+        left: rect.left - left,
+        width,
+        height,
+        radius: shape === 'rect' ? 0 : Math.min(radius, width / 2, height / 2),
+    };
+};
+
+const getHolePath = ({ top, left, width, height, radius: r }: SpotlightHole) => {
+    const right = left + width;
+    const bottom = top + height;
+    return [
+        `M${left + r} ${top}`,
+        `H${right - r}`,
+        `A${r} ${r} 0 0 1 ${right} ${top + r}`,
+        `V${bottom - r}`,
+        `A${r} ${r} 0 0 1 ${right - r} ${bottom}`,
+        `H${left + r}`,
+        `A${r} ${r} 0 0 1 ${left} ${bottom - r}`,
+        `V${top + r}`,
+        `A${r} ${r} 0 0 1 ${left + r} ${top}`,
+        'Z',
+    ].join(' ');
+};
+
+interface SpotlightOverlayProps {
+    holes: SpotlightHole[];
+    allowClicks: boolean;
+    reducedMotion: boolean;
+    onClick: () => void;
+    overlayStyle?: React.CSSProperties;
+    spotlightStyle?: React.CSSProperties;
+    overlayClassName?: string;
+    spotlightClassName?: string;
+}
+
+export const SpotlightOverlay: React.FC<SpotlightOverlayProps> = ({
+    holes,
+    allowClicks,
+    reducedMotion,
+    onClick,
+    overlayStyle,
+    spotlightStyle,
+    overlayClassName,
+    spotlightClassName,
+}) => {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+    const overlayPath = [`M0 0 H${width} V${height} H0 Z`, ...holes.map(getHolePath)].join(' ');
+
+    return (
+        <>
+            <svg
+                width={width}
+                height={height}
+                fill="transparent"
+                className={overlayClassName}
+                style={{
+                    position: 'fixed',
+                    top: 0,
+                    left: 0,
+                    zIndex: vars.zIndex.overlay,
+                    pointerEvents: 'none',
+                    ...overlayStyle,
+                }}
+            >
+                <path d={overlayPath} fillRule="evenodd" style={{ pointerEvents: 'auto' }} onClick={onClick} />
+                {!allowClicks &&
+                    holes.map((hole, index) => (
+                        <path key={index} d={getHolePath(hole)} fill="transparent" style={{ pointerEvents: 'auto' }} />
+                    ))}
+            </svg>
+            {holes.map((hole, index) => (
+                <div
+                    key={index}
+                    className={spotlightClassName}
+                    data-reduced-motion={reducedMotion || undefined}
+                    style={{
+                        position: 'fixed',
+                        top: `${hole.top}px`,
+                        left: `${hole.left}px`,
+                        width: `${hole.width}px`,
+                        height: `${hole.height}px`,
+                        borderRadius: `${hole.radius}px`,
+                        pointerEvents: 'none',
+                        zIndex: vars.zIndex.spotlight,
+                        ...spotlightStyle,
+                    }}
+                />
+            ))}
+        </>
+    );
+};
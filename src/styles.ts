@@ -0,0 +1,319 @@
+import type React from 'react';
+import { vars } from './themes';
+
+export type OnboardingBeaconSlot = 'beacon' | 'beaconPulse' | 'beaconDot';
+
+export type OnboardingSlot =
+    | OnboardingBeaconSlot
+    | 'overlay'
+    | 'spotlight'
+    | 'tooltip'
+    | 'card'
+    | 'arrow'
+    | 'progress'
+    | 'progressBar'
+    | 'title'
+    | 'content'
+    | 'hint'
+    | 'footer'
+    | 'buttons'
+    | 'buttonNext'
+    | 'buttonBack'
+    | 'buttonSkip';
+
+export type OnboardingClassNames = Partial<Record<OnboardingSlot, string>>;
+
+export type OnboardingStyles = Partial<Record<OnboardingSlot, React.CSSProperties>>;
+
+export type OnboardingHotspotSlot = OnboardingBeaconSlot | 'hotspot' | 'hotspotTitle' | 'hotspotContent' | 'hotspotButton';
+
+export type OnboardingHotspotClassNames = Partial<Record<OnboardingHotspotSlot, string>>;
+
+export type OnboardingHotspotStyles = Partial<Record<OnboardingHotspotSlot, React.CSSProperties>>;
+
+export type OnboardingChecklistSlot =
+    | 'checklist'
+    | 'checklistPanel'
+    | 'checklistTitle'
+    | 'checklistProgress'
+    | 'checklistItems'
+    | 'checklistItem'
+    | 'checklistCheck'
+    | 'checklistItemTitle'
+    | 'checklistItemDescription'
+    | 'checklistButton'
+    | 'checklistLauncher';
+
+export type OnboardingChecklistClassNames = Partial<Record<OnboardingChecklistSlot, string>>;
+
+export type OnboardingChecklistStyles = Partial<Record<OnboardingChecklistSlot, React.CSSProperties>>;
+
+const toKebabCase = (value: string) => value.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+
+export const getSlotClassName = <Slot extends string>(slot: Slot, classNames?: Partial<Record<Slot, string>>) =>
+    [`rcfs-${toKebabCase(slot)}`, classNames?.[slot]].filter(Boolean).join(' ');
+
+const button = `
+    padding: ${vars.spacing.buttonY} ${vars.spacing.buttonX};
+    border-radius: ${vars.radii.button};
+    cursor: pointer;
+    font-family: ${vars.fonts.family};
+    font-size: ${vars.fonts.bodySize};
+    transition: all 0.2s;`;
+
+export const defaultStylesheet = `
+:where(.rcfs-overlay) { fill: ${vars.colors.overlay}; }
+:where(.rcfs-spotlight) {
+    box-shadow: 0 0 0 2px ${vars.colors.spotlightBorder};
+    transition: all 0.3s ease;
+}
+:where(.rcfs-spotlight[data-reduced-motion]) { transition: none; }
+:where(.rcfs-tooltip) { outline: none; }
+:where(.rcfs-card) {
+    background: ${vars.colors.background};
+    border-radius: ${vars.radii.tooltip};
+    padding: ${vars.spacing.tooltip};
+    box-shadow: ${vars.shadows.tooltip};
+    font-family: ${vars.fonts.family};
+    max-width: 400px;
+    min-width: 280px;
+}
+:where(.rcfs-tooltip[data-sheet]) { touch-action: pan-y; }
+:where(.rcfs-tooltip[data-sheet] > .rcfs-card) {
+    box-sizing: border-box;
+    max-width: none;
+    min-width: 0;
+    max-height: 60vh;
+    overflow-y: auto;
+}
+:where(.rcfs-tooltip[data-sheet="bottom"] > .rcfs-card) {
+    border-bottom-left-radius: 0;
+    border-bottom-right-radius: 0;
+    padding-bottom: calc(${vars.spacing.tooltip} + env(safe-area-inset-bottom, 0px));
+}
+:where(.rcfs-tooltip[data-sheet="top"] > .rcfs-card) {
+    border-top-left-radius: 0;
+    border-top-right-radius: 0;
+    padding-top: calc(${vars.spacing.tooltip} + env(safe-area-inset-top, 0px));
+}
+:where(.rcfs-arrow) {
+    width: 0;
+    height: 0;
+    border-left: 12px solid transparent;
+    border-right: 12px solid transparent;
+    border-bottom: 12px solid ${vars.colors.background};
+    filter: ${vars.shadows.arrow};
+}
+:where(.rcfs-progress) {
+    font-size: ${vars.fonts.smallSize};
+    color: ${vars.colors.textMuted};
+    margin-bottom: 8px;
+    font-weight: 500;
+}
+:where(.rcfs-progress-bar) {
+    height: 3px;
+    margin-bottom: 12px;
+    overflow: hidden;
+    border-radius: 2px;
+    background: ${vars.colors.border};
+}
+:where(.rcfs-progress-bar) > span {
+    background: ${vars.colors.primary};
+    transition: width 100ms linear;
+}
+:where(.rcfs-title) {
+    margin: 0 0 12px 0;
+    font-size: ${vars.fonts.titleSize};
+    font-weight: ${vars.fonts.titleWeight};
+    color: ${vars.colors.heading};
+}
+:where(.rcfs-content) {
+    margin: 0 0 20px 0;
+    font-size: ${vars.fonts.bodySize};
+    color: ${vars.colors.text};
+    line-height: 1.6;
+}
+:where(.rcfs-hint) { margin: -8px 0 16px 0; font-size: 13px; color: ${vars.colors.hint}; }
+:where(.rcfs-footer) { display: flex; gap: ${vars.spacing.gap}; justify-content: space-between; align-items: center; }
+:where(.rcfs-buttons) { display: flex; gap: ${vars.spacing.gap}; }
+:where(.rcfs-button-next) {${button}
+    border: none;
+    background: ${vars.colors.primary};
+    color: ${vars.colors.primaryText};
+    font-weight: ${vars.fonts.buttonWeight};
+}
+:where(.rcfs-button-next:hover:not(:disabled)) { background: ${vars.colors.primaryHover}; }
+:where(.rcfs-button-next:disabled) { cursor: not-allowed; opacity: 0.5; }
+:where(.rcfs-button-back) {${button}
+    border: 1px solid ${vars.colors.border};
+    background: ${vars.colors.secondary};
+    color: ${vars.colors.secondaryText};
+    font-weight: ${vars.fonts.buttonWeight};
+}
+:where(.rcfs-button-back:hover) { background: ${vars.colors.secondaryHover}; }
+:where(.rcfs-button-skip) {${button}
+    border: none;
+    background: transparent;
+    color: ${vars.colors.skipText};
+}
+:where(.rcfs-button-skip:hover) { color: ${vars.colors.skipHover}; }
+`;
+
+export const checklistStylesheet = `
+:where(.rcfs-checklist) {
+    display: flex;
+    flex-direction: column;
+    align-items: flex-end;
+    gap: 8px;
+    font-family: ${vars.fonts.family};
+}
+:where(.rcfs-checklist[data-position="bottom-left"]) { align-items: flex-start; }
+:where(.rcfs-checklist-panel) {
+    width: min(320px, calc(100vw - 32px));
+    box-sizing: border-box;
+    background: ${vars.colors.background};
+    border-radius: ${vars.radii.tooltip};
+    padding: 16px;
+    box-shadow: ${vars.shadows.tooltip};
+}
+:where(.rcfs-checklist-title) {
+    margin: 0 0 8px 0;
+    font-size: 16px;
+    font-weight: ${vars.fonts.titleWeight};
+    color: ${vars.colors.heading};
+}
+:where(.rcfs-checklist-progress) {
+    height: 6px;
+    margin-bottom: 12px;
+    overflow: hidden;
+    border-radius: 3px;
+    background: ${vars.colors.border};
+}
+:where(.rcfs-checklist-progress) > span { background: ${vars.colors.primary}; }
+:where(.rcfs-checklist-items) { list-style: none; margin: 0; padding: 0; }
+:where(.rcfs-checklist-item) {
+    display: flex;
+    align-items: flex-start;
+    gap: 10px;
+    padding: 8px 0;
+    border-top: 1px solid ${vars.colors.border};
+}
+:where(.rcfs-checklist-item) > div { flex: 1; min-width: 0; }
+:where(.rcfs-checklist-check) {
+    flex: none;
+    width: 18px;
+    height: 18px;
+    margin-top: 1px;
+    border-radius: 50%;
+    box-sizing: border-box;
+    border: 2px solid ${vars.colors.border};
+    color: ${vars.colors.primaryText};
+    font-size: 11px;
+    line-height: 14px;
+    text-align: center;
+}
+:where(.rcfs-checklist-item[data-done] .rcfs-checklist-check) {
+    border-color: ${vars.colors.primary};
+    background: ${vars.colors.primary};
+}
+:where(.rcfs-checklist-item-title) { font-size: ${vars.fonts.bodySize}; color: ${vars.colors.text}; }
+:where(.rcfs-checklist-item[data-done] .rcfs-checklist-item-title) {
+    color: ${vars.colors.textMuted};
+    text-decoration: line-through;
+}
+:where(.rcfs-checklist-item-description) {
+    margin-top: 2px;
+    font-size: ${vars.fonts.smallSize};
+    color: ${vars.colors.textMuted};
+}
+:where(.rcfs-checklist-button) {
+    flex: none;
+    padding: 4px 10px;
+    border-radius: ${vars.radii.button};
+    border: 1px solid ${vars.colors.border};
+    background: transparent;
+    color: ${vars.colors.text};
+    cursor: pointer;
+    font-family: ${vars.fonts.family};
+    font-size: ${vars.fonts.smallSize};
+    font-weight: ${vars.fonts.buttonWeight};
+}
+:where(.rcfs-checklist-launcher) {
+    padding: 8px 16px;
+    border-radius: 999px;
+    border: none;
+    background: ${vars.colors.primary};
+    color: ${vars.colors.primaryText};
+    box-shadow: ${vars.shadows.tooltip};
+    cursor: pointer;
+    font-family: ${vars.fonts.family};
+    font-size: ${vars.fonts.bodySize};
+    font-weight: ${vars.fonts.buttonWeight};
+}
+:where(.rcfs-checklist-launcher:hover) { background: ${vars.colors.primaryHover}; }
+`;
+
+// `--rcfs-beacon-color` is set inline when a Beacon or Hotspot gets a `color` prop.
+const beaconColor = `var(--rcfs-beacon-color, ${vars.colors.primary})`;
+
+export const beaconStylesheet = `
+@keyframes rc-first-steps-pulse {
+    0% { transform: scale(0.8); opacity: 0.8; }
+    70% { transform: scale(1.8); opacity: 0; }
+    100% { transform: scale(1.8); opacity: 0; }
+}
+:where(.rcfs-beacon) {
+    padding: 0;
+    border: none;
+    border-radius: 50%;
+    background: transparent;
+    cursor: pointer;
+}
+:where(.rcfs-beacon-pulse) {
+    position: absolute;
+    inset: 0;
+    border-radius: 50%;
+    background: ${beaconColor};
+    animation: rc-first-steps-pulse 1.6s ease-out infinite;
+}
+:where(.rcfs-beacon[data-reduced-motion] .rcfs-beacon-pulse) { animation: none; }
+:where(.rcfs-beacon-dot) {
+    position: absolute;
+    inset: 6px;
+    border-radius: 50%;
+    background: ${beaconColor};
+}
+`;
+
+export const hotspotStylesheet = `
+:where(.rcfs-hotspot) {
+    background: ${vars.colors.background};
+    border-radius: ${vars.radii.tooltip};
+    padding: 16px;
+    box-shadow: ${vars.shadows.tooltip};
+    font-family: ${vars.fonts.family};
+}
+:where(.rcfs-hotspot-title) {
+    margin: 0 0 8px 0;
+    font-size: 16px;
+    font-weight: ${vars.fonts.titleWeight};
+    color: ${vars.colors.heading};
+}
+:where(.rcfs-hotspot-content) {
+    margin: 0 0 12px 0;
+    font-size: ${vars.fonts.bodySize};
+    color: ${vars.colors.text};
+    line-height: 1.6;
+}
+:where(.rcfs-hotspot-button) {
+    padding: 6px 14px;
+    border-radius: ${vars.radii.button};
+    border: none;
+    background: ${beaconColor};
+    color: ${vars.colors.primaryText};
+    cursor: pointer;
+    font-family: ${vars.fonts.family};
+    font-size: ${vars.fonts.bodySize};
+    font-weight: ${vars.fonts.buttonWeight};
+}
+`;
@@ -0,0 +1,99 @@
+import type React from 'react';
+import { getElementRect } from './tracking';
+
+export type TargetNotFoundAction = 'skip' | 'center' | 'stop';
+
+export type OnboardingTargetElement =
+    | string
+    | React.RefObject<HTMLElement | null>
+    | (() => HTMLElement | null | undefined);
+
+export type OnboardingTarget = OnboardingTargetElement | OnboardingTargetElement[];
+
+export const DEFAULT_TARGET_TIMEOUT = 3000;
+
+export const ANCHOR_ATTRIBUTE = 'data-tour';
+
+export const getAnchorSelector = (id: string) => `[${ANCHOR_ATTRIBUTE}="${id.replace(/["\\]/g, '\\$&')}"]`;
+
+export const getStepTarget = (step: { id?: string; target?: OnboardingTarget | null }): OnboardingTarget | undefined =>
+    step.target === null ? undefined : step.target ?? (step.id ? getAnchorSelector(step.id) : undefined);
+
+export const describeTarget = (target: OnboardingTarget | undefined): string => {
+    if (target === undefined) return 'none';
+    if (Array.isArray(target)) return target.map(describeTarget).join(', ');
+    return typeof target === 'string' ? target : typeof target === 'function' ? 'function' : 'ref';
+};
+
+export const findTarget = (target: OnboardingTargetElement): HTMLElement | null => {
+    if (typeof target === 'string') {
+        return document.querySelector(target) as HTMLElement | null;
+    }
+    if (typeof target === 'function') {
+        return target() ?? null;
+    }
+    return target.current;
+};
+
+export const findTargets = (target: OnboardingTarget): HTMLElement[] | null => {
+    const elements = (Array.isArray(target) ? target : [target]).map(findTarget);
+    return elements.every((element) => element !== null) ? (elements as HTMLElement[]) : null;
+};
+
+export const watchTarget = (
+    target: OnboardingTarget | undefined,
+    timeout: number,
+    onFound: (elements: HTMLElement[]) => void,
+    onTimeout: () => void
+): (() => void) => {
+    if (target === undefined) {
+        onTimeout();
+        return () => {};
+    }
+
+    const existing = findTargets(target);
+    if (existing) {
+        onFound(existing);
+        return () => {};
+    }
+
+    let done = false;
+
+    const observer = new MutationObserver(() => {
+        const elements = findTargets(target);
+        if (elements) {
+            finish();
+            onFound(elements);
+        }
+    });
+
+    const timer = setTimeout(() => {
+        finish();
+        onTimeout();
+    }, timeout);
+
+    const finish = () => {
+        if (done) return;
+        done = true;
+        observer.disconnect();
+        clearTimeout(timer);
+    };
+
+    observer.observe(document.body, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+    });
+
+    return finish;
+};
+
+export const getUnionRect = (elements: HTMLElement[]) => {
+    const rects = elements.map(getElementRect);
+    const top = Math.min(...rects.map((rect) => rect.top));
+    const left = Math.min(...rects.map((rect) => rect.left));
+    const bottom = Math.max(...rects.map((rect) => rect.bottom));
+    const right = Math.max(...rects.map((rect) => rect.right));
+
+    return { top, left, bottom, right, width: right - left, height: bottom - top };
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { OnboardingConfig } from './index';
+import { assertTourTargets, mockTargetGeometry, renderTour } from './testing';
+
+const ui = (
+    <>
+        <button id="upload">Upload</button>
+        <button id="share">Share</button>
+    </>
+);
+
+const config: OnboardingConfig = {
+    steps: [
+        { target: '#upload', title: 'Upload files', content: 'Drop your CSV here.' },
+        { target: '#share', title: 'Share', content: 'Invite your team.' },
+    ],
+};
+
+describe('renderTour', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('walks through the steps', () => {
+        const onComplete = jest.fn();
+        const tour = renderTour(config, { ui, providerProps: { onComplete } });
+
+        expect(tour.getStepTitle()).toBe('Upload files');
+        tour.next();
+        expect(tour.getStepTitle()).toBe('Share');
+        tour.back();
+        expect(tour.getStepTitle()).toBe('Upload files');
+
+        tour.complete();
+        expect(tour.queryTooltip()).toBeNull();
+        expect(onComplete).toHaveBeenCalledTimes(1);
+        tour.unmount();
+    });
+
+    it('exposes the onboarding controls', () => {
+        const tour = renderTour(config, { ui, run: false });
+
+        expect(tour.queryTooltip()).toBeNull();
+        expect(tour.onboarding.isActive).toBe(false);
+        tour.unmount();
+    });
+
+    it('skips the tour', () => {
+        const onSkip = jest.fn();
+        const tour = renderTour(config, { ui, providerProps: { onSkip } });
+
+        tour.skip();
+        expect(tour.queryTooltip()).toBeNull();
+        expect(onSkip).toHaveBeenCalledTimes(1);
+        tour.unmount();
+    });
+
+    it('throws a readable error for a missing button', () => {
+        const tour = renderTour(config, { ui });
+
+        expect(() => tour.getButton('Download')).toThrow('Unable to find a "Download" button');
+        tour.unmount();
+    });
+});
+
+describe('flush', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        document.body.innerHTML = '';
+    });
+
+    it('advances timers for steps waiting on a target', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const tour = renderTour(
+            {
+                steps: [
+                    {
+                        target: '#missing',
+                        title: 'Missing',
+                        content: '...',
+                        targetTimeout: 500,
+                        targetNotFoundAction: 'skip',
+                    },
+                    { target: '#share', title: 'Share', content: '...' },
+                ],
+            },
+            { ui, advanceTimers: jest.advanceTimersByTime }
+        );
+
+        expect(tour.getStepTitle()).toBe('Missing');
+        await tour.flush(500);
+        expect(tour.getStepTitle()).toBe('Share');
+        expect(warn).toHaveBeenCalledWith('Onboarding: Target element "#missing" not found, action: skip');
+        tour.unmount();
+        warn.mockRestore();
+    });
+});
+
+describe('mockTargetGeometry', () => {
+    it('reports the given rect for matching elements and restores the original', () => {
+        const element = document.createElement('div');
+        element.id = 'chart';
+        document.body.appendChild(element);
+
+        const restore = mockTargetGeometry({ '#chart': { top: 10, left: 20, width: 100, height: 50 } });
+        expect(element.getBoundingClientRect()).toMatchObject({ top: 10, left: 20, right: 120, bottom: 60 });
+        expect(document.body.getBoundingClientRect().width).toBe(0);
+
+        restore();
+        expect(element.getBoundingClientRect().width).toBe(0);
+        element.remove();
+    });
+});
+
+describe('assertTourTargets', () => {
+    it('lists the steps whose targets are missing', () => {
+        document.body.innerHTML = '<button id="upload">Upload</button>';
+
+        expect(() => assertTourTargets(config)).toThrow('1 step target(s) are not in the document');
+        document.body.innerHTML = '';
+    });
+});
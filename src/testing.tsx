@@ -0,0 +1,215 @@
+import React, { ReactNode } from 'react';
+import { Root, createRoot } from 'react-dom/client';
+import * as TestUtils from 'react-dom/test-utils';
+import {
+    OnboardingConfig,
+    OnboardingProvider,
+    defaultLocale,
+    findMissingTargets,
+    useOnboarding,
+} from './index';
+
+type OnboardingControls = ReturnType<typeof useOnboarding>;
+
+// `act` is exported from react since 18.3; earlier 18.x releases only have it in react-dom/test-utils
+const act: typeof TestUtils.act = (React as { act?: typeof TestUtils.act }).act ?? TestUtils.act;
+
+type ProviderProps = Omit<React.ComponentProps<typeof OnboardingProvider>, 'children' | 'config'>;
+
+export interface MockRect {
+    top?: number;
+    left?: number;
+    width?: number;
+    height?: number;
+}
+
+export interface RenderTourOptions {
+    ui?: ReactNode;
+    run?: ProviderProps['run'];
+    providerProps?: ProviderProps;
+    advanceTimers?: (ms: number) => void;
+}
+
+export interface RenderTourResult {
+    container: HTMLElement;
+    onboarding: OnboardingControls;
+    rerender: (ui: ReactNode) => void;
+    unmount: () => void;
+    queryTooltip: () => HTMLElement | null;
+    getTooltip: () => HTMLElement;
+    getStepTitle: () => string;
+    getButton: (name: string) => HTMLButtonElement;
+    queryButton: (name: string) => HTMLButtonElement | null;
+    next: () => void;
+    back: () => void;
+    skip: () => void;
+    complete: () => void;
+    flush: (ms?: number) => Promise<void>;
+}
+
+export const queryTooltip = (): HTMLElement | null => document.querySelector('[role="dialog"]');
+
+export const getTooltip = (): HTMLElement => {
+    const tooltip = queryTooltip();
+    if (!tooltip) {
+        throw new Error('Onboarding: Unable to find the tour tooltip (role="dialog"). Is a tour running?');
+    }
+    return tooltip;
+};
+
+export const getStepTitle = (): string => {
+    const tooltip = getTooltip();
+    const titleId = tooltip.getAttribute('aria-labelledby');
+    const title = titleId ? document.getElementById(titleId) : null;
+    return title?.textContent?.trim() ?? '';
+};
+
+export const queryButton = (name: string): HTMLButtonElement | null => {
+    const tooltip = queryTooltip();
+    if (!tooltip) return null;
+    const buttons = Array.from(tooltip.querySelectorAll('button'));
+    return (
+        buttons.find((button) => (button.getAttribute('aria-label') ?? button.textContent?.trim()) === name) ?? null
+    );
+};
+
+export const getButton = (name: string): HTMLButtonElement => {
+    const button = queryButton(name);
+    if (!button) {
+        throw new Error(`Onboarding: Unable to find a "${name}" button in the current step`);
+    }
+    return button;
+};
+
+const click = (button: HTMLButtonElement) => {
+    act(() => {
+        button.click();
+    });
+};
+
+export const mockTargetGeometry = (rects: Record<string, MockRect>): (() => void) => {
+    const original = Element.prototype.getBoundingClientRect;
+
+    Element.prototype.getBoundingClientRect = function (this: Element) {
+        const selector = Object.keys(rects).find((candidate) => this.matches(candidate));
+        if (!selector) return original.call(this);
+
+        const { top = 0, left = 0, width = 0, height = 0 } = rects[selector];
+        return {
+            top,
+            left,
+            width,
+            height,
+            x: left,
+            y: top,
+            right: left + width,
+            bottom: top + height,
+            toJSON: () => ({ top, left, width, height }),
+        } as DOMRect;
+    };
+
+    return () => {
+        Element.prototype.getBoundingClientRect = original;
+    };
+};
+
+export const assertTourTargets = (config: OnboardingConfig) => {
+    const missing = findMissingTargets(config.steps);
+    if (missing.length === 0) return;
+
+    const lines = missing.map(
+        ({ index, step, target }) => `  - steps[${index}]${step.id ? ` (${step.id})` : ''}: ${target}`
+    );
+    throw new Error(`Onboarding: ${missing.length} step target(s) are not in the document:\n${lines.join('\n')}`);
+};
+
+export const renderTour = (
+    config: OnboardingConfig,
+    { ui = null, run = true, providerProps, advanceTimers }: RenderTourOptions = {}
+): RenderTourResult => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const root: Root = createRoot(container);
+    const locale = { ...defaultLocale, ...config.locale };
+    let onboarding: OnboardingControls | undefined;
+
+    const Capture = () => {
+        onboarding = useOnboarding();
+        return null;
+    };
+
+    const render = (children: ReactNode) => {
+        act(() => {
+            root.render(
+                <OnboardingProvider config={config} run={run} {...providerProps}>
+                    {children}
+                    <Capture />
+                </OnboardingProvider>
+            );
+        });
+    };
+
+    const next = () => {
+        click(queryButton(locale.next) ?? getButton(locale.finish));
+    };
+
+    const skip = () => {
+        const button = queryButton(locale.skip);
+        if (button) {
+            click(button);
+            return;
+        }
+        act(() => {
+            document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+        });
+    };
+
+    const complete = () => {
+        for (let remaining = config.steps.length; queryTooltip() && remaining > 0; remaining--) {
+            next();
+        }
+        if (queryTooltip()) {
+            throw new Error('Onboarding: The tour did not finish after clicking through every step');
+        }
+    };
+
+    const flush = async (ms = 0) => {
+        await act(async () => {
+            if (advanceTimers) {
+                advanceTimers(ms);
+            } else if (ms > 0) {
+                await new Promise((resolve) => setTimeout(resolve, ms));
+            }
+            await Promise.resolve();
+        });
+    };
+
+    render(ui);
+
+    return {
+        container,
+        get onboarding() {
+            if (!onboarding) {
+                throw new Error('Onboarding: The provider has not rendered yet');
+            }
+            return onboarding;
+        },
+        rerender: render,
+        unmount: () => {
+            act(() => root.unmount());
+            container.remove();
+        },
+        queryTooltip,
+        getTooltip,
+        getStepTitle,
+        getButton,
+        queryButton,
+        next,
+        back: () => click(getButton(locale.back)),
+        skip,
+        complete,
+        flush,
+    };
+};
@@ -1,72 +1,271 @@
-export const darkTheme = {
-    styles: {
-        spotlight: {
-            borderRadius: '12px',
-            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.9)',
-            border: '2px solid #4b5563',
-        },
-        buttonNext: {
-            background: '#10b981',
-            color: 'white',
-        },
-        buttonBack: {
-            background: '#374151',
-            color: 'white',
-            border: 'none',
-        },
+export interface OnboardingTheme {
+    colors: {
+        overlay: string;
+        spotlightBorder: string;
+        background: string;
+        heading: string;
+        text: string;
+        textMuted: string;
+        border: string;
+        primary: string;
+        primaryHover: string;
+        primaryText: string;
+        secondary: string;
+        secondaryHover: string;
+        secondaryText: string;
+        skipText: string;
+        skipHover: string;
+        hint: string;
+    };
+    radii: {
+        tooltip: number;
+        button: number;
+        spotlight: number;
+    };
+    spacing: {
+        tooltip: number;
+        gap: number;
+        buttonX: number;
+        buttonY: number;
+    };
+    fonts: {
+        family: string;
+        titleSize: string;
+        bodySize: string;
+        smallSize: string;
+        titleWeight: string;
+        buttonWeight: string;
+    };
+    shadows: {
+        tooltip: string;
+        arrow: string;
+    };
+    zIndex: {
+        overlay: number;
+        spotlight: number;
+        tooltip: number;
+    };
+}
+
+export type OnboardingThemeOverrides = {
+    [K in keyof OnboardingTheme]?: Partial<OnboardingTheme[K]>;
+};
+
+export type OnboardingThemeSetting =
+    | OnboardingTheme
+    | 'light'
+    | 'dark'
+    | 'auto'
+    | { light: OnboardingTheme; dark: OnboardingTheme };
+
+export const lightTheme: OnboardingTheme = {
+    colors: {
+        overlay: 'rgba(0, 0, 0, 0.75)',
+        spotlightBorder: 'transparent',
+        background: '#ffffff',
+        heading: '#111111',
+        text: '#444444',
+        textMuted: '#666666',
+        border: '#dddddd',
+        primary: '#0066ff',
+        primaryHover: '#0052cc',
+        primaryText: '#ffffff',
+        secondary: '#ffffff',
+        secondaryHover: '#f9fafb',
+        secondaryText: '#111111',
+        skipText: '#666666',
+        skipHover: '#333333',
+        hint: '#b45309',
+    },
+    radii: {
+        tooltip: 12,
+        button: 6,
+        spotlight: 8,
+    },
+    spacing: {
+        tooltip: 20,
+        gap: 8,
+        buttonX: 16,
+        buttonY: 8,
+    },
+    fonts: {
+        family: 'inherit',
+        titleSize: '18px',
+        bodySize: '14px',
+        smallSize: '12px',
+        titleWeight: '600',
+        buttonWeight: '500',
+    },
+    shadows: {
+        tooltip: '0 4px 20px rgba(0, 0, 0, 0.25)',
+        arrow: 'drop-shadow(0 -2px 2px rgba(0, 0, 0, 0.1))',
+    },
+    zIndex: {
+        overlay: 9997,
+        spotlight: 9998,
+        tooltip: 9999,
     },
 };
 
-export const modernTheme = {
-    styles: {
-        spotlight: {
-            borderRadius: '20px',
-            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
-            border: '1px solid rgba(255, 255, 255, 0.2)',
-        },
-        buttonNext: {
-            background: 'rgba(59, 130, 246, 0.9)',
-            backdropFilter: 'blur(10px)',
-            border: '1px solid rgba(255, 255, 255, 0.2)',
-        },
+export const createTheme = (
+    overrides: OnboardingThemeOverrides,
+    base: OnboardingTheme = lightTheme
+): OnboardingTheme => ({
+    colors: { ...base.colors, ...overrides.colors },
+    radii: { ...base.radii, ...overrides.radii },
+    spacing: { ...base.spacing, ...overrides.spacing },
+    fonts: { ...base.fonts, ...overrides.fonts },
+    shadows: { ...base.shadows, ...overrides.shadows },
+    zIndex: { ...base.zIndex, ...overrides.zIndex },
+});
+
+export const darkThemeTokens = createTheme({
+    colors: {
+        overlay: 'rgba(0, 0, 0, 0.9)',
+        spotlightBorder: '#4b5563',
+        background: '#1f2937',
+        heading: '#f9fafb',
+        text: '#d1d5db',
+        textMuted: '#9ca3af',
+        border: '#4b5563',
+        primary: '#10b981',
+        primaryHover: '#059669',
+        primaryText: '#ffffff',
+        secondary: '#374151',
+        secondaryHover: '#4b5563',
+        secondaryText: '#ffffff',
+        skipText: '#9ca3af',
+        skipHover: '#f9fafb',
+        hint: '#fbbf24',
+    },
+    radii: {
+        spotlight: 12,
+    },
+    shadows: {
+        tooltip: '0 4px 20px rgba(0, 0, 0, 0.6)',
+        arrow: 'none',
+    },
+});
+
+export const modernThemeTokens = createTheme({
+    colors: {
+        overlay: 'rgba(0, 0, 0, 0.6)',
+        spotlightBorder: 'rgba(255, 255, 255, 0.2)',
+        primary: 'rgba(59, 130, 246, 0.9)',
+        primaryHover: 'rgba(37, 99, 235, 0.95)',
+    },
+    radii: {
+        tooltip: 16,
+        button: 10,
+        spotlight: 20,
+    },
+});
+
+export const minimalThemeTokens = createTheme({
+    colors: {
+        overlay: 'rgba(0, 0, 0, 0.4)',
+        spotlightBorder: '#000000',
+        border: '#000000',
+        primary: '#000000',
+        primaryHover: '#333333',
+        primaryText: '#ffffff',
+        secondary: 'transparent',
+        secondaryHover: '#f3f4f6',
+        secondaryText: '#000000',
+    },
+    radii: {
+        tooltip: 4,
+        button: 4,
+        spotlight: 4,
+    },
+    shadows: {
+        tooltip: '0 1px 4px rgba(0, 0, 0, 0.2)',
+    },
+});
+
+export const colorfulThemeTokens = createTheme({
+    colors: {
+        overlay: 'rgba(0, 0, 0, 0.7)',
+        spotlightBorder: '#f59e0b',
+        primary: 'linear-gradient(135deg, #f59e0b 0%, #ef4444 100%)',
+        primaryHover: 'linear-gradient(135deg, #d97706 0%, #dc2626 100%)',
     },
+    radii: {
+        button: 12,
+        spotlight: 16,
+    },
+    fonts: {
+        buttonWeight: 'bold',
+    },
+});
+
+export const themes = {
+    light: lightTheme,
+    dark: darkThemeTokens,
+    modern: modernThemeTokens,
+    minimal: minimalThemeTokens,
+    colorful: colorfulThemeTokens,
+};
+
+export const resolveTheme = (setting: OnboardingThemeSetting | undefined, prefersDark: boolean): OnboardingTheme => {
+    if (setting === undefined || setting === 'light') return lightTheme;
+    if (setting === 'dark') return darkThemeTokens;
+    if (setting === 'auto') return prefersDark ? darkThemeTokens : lightTheme;
+    if ('light' in setting && 'dark' in setting) return prefersDark ? setting.dark : setting.light;
+    return setting;
+};
+
+const toKebabCase = (value: string) => value.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+
+const PIXEL_GROUPS = ['radii', 'spacing'];
+
+const getVariableName = (group: string, key: string) => `--rcfs-${toKebabCase(group)}-${toKebabCase(key)}`;
+
+const getTokenValue = (theme: OnboardingTheme, group: keyof OnboardingTheme, key: string) => {
+    const value = (theme[group] as Record<string, string | number>)[key];
+    return PIXEL_GROUPS.includes(group) ? `${value}px` : String(value);
+};
+
+export const themeToCssVariables = (theme: OnboardingTheme): Record<string, string> => {
+    const variables: Record<string, string> = {};
+    (Object.keys(theme) as Array<keyof OnboardingTheme>).forEach((group) => {
+        Object.keys(theme[group]).forEach((key) => {
+            variables[getVariableName(group, key)] = getTokenValue(theme, group, key);
+        });
+    });
+    return variables;
+};
+
+type ThemeVars = { [K in keyof OnboardingTheme]: { [P in keyof OnboardingTheme[K]]: string } };
+
+export const vars = (Object.keys(lightTheme) as Array<keyof OnboardingTheme>).reduce(
+    (groups, group) => ({
+        ...groups,
+        [group]: Object.keys(lightTheme[group]).reduce(
+            (tokens, key) => ({
+                ...tokens,
+                [key]: `var(${getVariableName(group, key)}, ${getTokenValue(lightTheme, group, key)})`,
+            }),
+            {}
+        ),
+    }),
+    {}
+) as ThemeVars;
+
+export const darkTheme = {
+    theme: darkThemeTokens,
+};
+
+export const modernTheme = {
+    theme: modernThemeTokens,
 };
 
 export const minimalTheme = {
-    styles: {
-        spotlight: {
-            borderRadius: '4px',
-            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.4)',
-            border: '1px solid #000',
-        },
-        buttonNext: {
-            background: '#000',
-            color: '#fff',
-            borderRadius: '4px',
-        },
-        buttonBack: {
-            background: 'transparent',
-            border: '1px solid #000',
-            color: '#000',
-            borderRadius: '4px',
-        },
-    },
+    theme: minimalThemeTokens,
 };
 
 export const colorfulTheme = {
-    styles: {
-        spotlight: {
-            borderRadius: '16px',
-            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.7)',
-            border: '3px solid #f59e0b',
-        },
-        buttonNext: {
-            background: 'linear-gradient(135deg, #f59e0b 0%, #ef4444 100%)',
-            color: 'white',
-            borderRadius: '12px',
-            fontWeight: 'bold',
-        },
-    },
+    theme: colorfulThemeTokens,
 };
 
 export default {
@@ -74,4 +273,4 @@ export default {
     modernTheme,
     minimalTheme,
     colorfulTheme
-};
\ No newline at end of file
+};
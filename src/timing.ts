@@ -0,0 +1,75 @@
+export type OnboardingIdleAction = 'stop' | 'minimize';
+
+export const DEFAULT_AUTOPLAY_DURATION = 5000;
+export const AUTOPLAY_TICK = 100;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'focusin', 'wheel'];
+
+export const watchIdle = (element: HTMLElement | null, timeout: number, onIdle: () => void): (() => void) => {
+    let timer = setTimeout(onIdle, timeout);
+
+    const reset = () => {
+        clearTimeout(timer);
+        timer = setTimeout(onIdle, timeout);
+    };
+
+    ACTIVITY_EVENTS.forEach((type) => element?.addEventListener(type, reset));
+
+    return () => {
+        clearTimeout(timer);
+        ACTIVITY_EVENTS.forEach((type) => element?.removeEventListener(type, reset));
+    };
+};
+
+export const watchInteraction = (element: HTMLElement | null, onChange: (interacting: boolean) => void) => {
+    if (!element) return () => {};
+
+    let hovered = false;
+    let focused = false;
+    const update = () => onChange(hovered || focused);
+
+    const handlePointerEnter = () => {
+        hovered = true;
+        update();
+    };
+    const handlePointerLeave = () => {
+        hovered = false;
+        update();
+    };
+    // The tooltip itself is focused programmatically on every step, so only focus moved inside it counts.
+    const handleFocusIn = (event: FocusEvent) => {
+        focused = event.target !== element;
+        update();
+    };
+    const handleFocusOut = (event: FocusEvent) => {
+        if (!element.contains(event.relatedTarget as Node | null)) {
+            focused = false;
+            update();
+        }
+    };
+
+    element.addEventListener('pointerenter', handlePointerEnter);
+    element.addEventListener('pointerleave', handlePointerLeave);
+    element.addEventListener('focusin', handleFocusIn);
+    element.addEventListener('focusout', handleFocusOut);
+
+    return () => {
+        element.removeEventListener('pointerenter', handlePointerEnter);
+        element.removeEventListener('pointerleave', handlePointerLeave);
+        element.removeEventListener('focusin', handleFocusIn);
+        element.removeEventListener('focusout', handleFocusOut);
+    };
+};
+
+export const lockScroll = () => {
+    const { documentElement, body } = document;
+    const previous = { html: documentElement.style.overflow, body: body.style.overflow };
+
+    documentElement.style.overflow = 'hidden';
+    body.style.overflow = 'hidden';
+
+    return () => {
+        documentElement.style.overflow = previous.html;
+        body.style.overflow = previous.body;
+    };
+};
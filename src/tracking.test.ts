@@ -0,0 +1,108 @@
+import { getElementRect, trackPosition } from './tracking';
+
+describe('trackPosition', () => {
+    let target: HTMLElement;
+    let rect: { top: number; left: number; width: number; height: number };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        rect = { top: 100, left: 100, width: 80, height: 40 };
+        target = document.createElement('div');
+        target.getBoundingClientRect = jest.fn(() => ({ ...rect }) as DOMRect);
+        document.body.appendChild(target);
+    });
+
+    afterEach(() => {
+        target.remove();
+        jest.useRealTimers();
+    });
+
+    const track = (onUpdate = jest.fn()) =>
+        trackPosition({ targets: [target], tooltip: null, onUpdate, onVisibilityChange: () => {} });
+
+    it('does not measure the target while nothing happens', () => {
+        const onUpdate = jest.fn();
+        const stop = track(onUpdate);
+        const measured = (target.getBoundingClientRect as jest.Mock).mock.calls.length;
+
+        jest.advanceTimersByTime(1000);
+        expect(target.getBoundingClientRect).toHaveBeenCalledTimes(measured);
+        expect(onUpdate).toHaveBeenCalledTimes(1);
+        stop();
+    });
+
+    it('measures once per frame after a burst of events', () => {
+        const onUpdate = jest.fn();
+        const stop = track(onUpdate);
+        const measured = (target.getBoundingClientRect as jest.Mock).mock.calls.length;
+
+        rect = { ...rect, top: 60 };
+        window.dispatchEvent(new Event('scroll'));
+        window.dispatchEvent(new Event('resize'));
+        window.dispatchEvent(new Event('scroll'));
+        jest.advanceTimersByTime(100);
+
+        expect(target.getBoundingClientRect).toHaveBeenCalledTimes(measured + 1);
+        expect(onUpdate).toHaveBeenCalledTimes(2);
+        stop();
+    });
+
+    it('skips the update when the layout did not change', () => {
+        const onUpdate = jest.fn();
+        const stop = track(onUpdate);
+
+        window.dispatchEvent(new Event('resize'));
+        jest.advanceTimersByTime(100);
+        expect(onUpdate).toHaveBeenCalledTimes(1);
+        stop();
+    });
+
+    it('stops listening once stopped', () => {
+        const onUpdate = jest.fn();
+        track(onUpdate)();
+
+        rect = { ...rect, top: 60 };
+        window.dispatchEvent(new Event('resize'));
+        jest.advanceTimersByTime(100);
+        expect(onUpdate).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('targets inside an iframe', () => {
+    let frame: HTMLIFrameElement;
+    let target: HTMLElement;
+    let rect: { top: number; left: number; width: number; height: number };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        frame = document.createElement('iframe');
+        document.body.appendChild(frame);
+        frame.getBoundingClientRect = () => ({ top: 200, left: 50, width: 400, height: 300 }) as DOMRect;
+
+        const frameDocument = frame.contentDocument as Document;
+        rect = { top: 10, left: 20, width: 80, height: 40 };
+        target = frameDocument.createElement('div');
+        target.getBoundingClientRect = () => ({ ...rect }) as DOMRect;
+        frameDocument.body.appendChild(target);
+    });
+
+    afterEach(() => {
+        frame.remove();
+        jest.useRealTimers();
+    });
+
+    it('measures the target in page coordinates', () => {
+        expect(getElementRect(target)).toEqual({ top: 210, left: 70, bottom: 250, right: 150, width: 80, height: 40 });
+    });
+
+    it('follows scrolling inside the frame', () => {
+        const onUpdate = jest.fn();
+        const stop = trackPosition({ targets: [target], tooltip: null, onUpdate, onVisibilityChange: () => {} });
+
+        rect = { ...rect, top: -20 };
+        frame.contentWindow?.dispatchEvent(new Event('scroll'));
+        jest.advanceTimersByTime(100);
+        expect(onUpdate).toHaveBeenCalledTimes(2);
+        stop();
+    });
+});
@@ -0,0 +1,250 @@
+const getView = (element: Element): Window => element.ownerDocument.defaultView ?? window;
+
+// The <iframe> an element's document is shown in; null at the top level or across origins.
+export const getFrameElement = (element: Element): HTMLElement | null => {
+    try {
+        return (getView(element).frameElement as HTMLElement | null) ?? null;
+    } catch {
+        return null;
+    }
+};
+
+export interface ElementRect {
+    top: number;
+    left: number;
+    bottom: number;
+    right: number;
+    width: number;
+    height: number;
+}
+
+// getBoundingClientRect in the top window's coordinates, for elements inside same-origin iframes too.
+export const getElementRect = (element: Element): ElementRect => {
+    const { top, left, width, height } = element.getBoundingClientRect();
+    let offsetTop = 0;
+    let offsetLeft = 0;
+
+    for (let frame = getFrameElement(element); frame; frame = getFrameElement(frame)) {
+        const frameRect = frame.getBoundingClientRect();
+        const { paddingTop, paddingLeft } = getView(frame).getComputedStyle(frame);
+        offsetTop += frameRect.top + frame.clientTop + (parseFloat(paddingTop) || 0);
+        offsetLeft += frameRect.left + frame.clientLeft + (parseFloat(paddingLeft) || 0);
+    }
+    return {
+        top: top + offsetTop,
+        left: left + offsetLeft,
+        bottom: top + offsetTop + height,
+        right: left + offsetLeft + width,
+        width,
+        height,
+    };
+};
+
+// The windows of the frames between the elements and the top window, whose scrolling moves the elements.
+const getFrameWindows = (elements: Element[]): Window[] => {
+    const views: Window[] = [];
+    elements.forEach((element) => {
+        for (let current: Element | null = element; current; current = getFrameElement(current)) {
+            const view = getView(current);
+            if (views.indexOf(view) === -1) views.push(view);
+        }
+    });
+    return views;
+};
+
+const isScrollable = (element: HTMLElement) => {
+    const { overflowX, overflowY } = getView(element).getComputedStyle(element);
+    return (
+        (/(auto|scroll|overlay)/.test(overflowY) && element.scrollHeight > element.clientHeight) ||
+        (/(auto|scroll|overlay)/.test(overflowX) && element.scrollWidth > element.clientWidth)
+    );
+};
+
+export const getScrollParents = (element: HTMLElement): HTMLElement[] => {
+    const parents: HTMLElement[] = [];
+    let parent = element.parentElement;
+
+    const { body, documentElement } = element.ownerDocument;
+
+    while (parent && parent !== body && parent !== documentElement) {
+        if (isScrollable(parent)) {
+            parents.push(parent);
+        }
+        parent = parent.parentElement;
+    }
+    return parents;
+};
+
+export interface ViewportBounds {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+}
+
+// The visual viewport excludes the on-screen keyboard and pinch zoom, which window.innerHeight does not.
+export const getViewportBounds = (): ViewportBounds => {
+    const viewport = window.visualViewport;
+    return viewport
+        ? { top: viewport.offsetTop, left: viewport.offsetLeft, width: viewport.width, height: viewport.height }
+        : { top: 0, left: 0, width: window.innerWidth, height: window.innerHeight };
+};
+
+export const watchViewport = (onChange: () => void) => {
+    const viewport = window.visualViewport;
+
+    viewport?.addEventListener('resize', onChange);
+    viewport?.addEventListener('scroll', onChange);
+    window.addEventListener('orientationchange', onChange);
+
+    return () => {
+        viewport?.removeEventListener('resize', onChange);
+        viewport?.removeEventListener('scroll', onChange);
+        window.removeEventListener('orientationchange', onChange);
+    };
+};
+
+export const scrollIntoView = (element: HTMLElement, offset: number, behavior: ScrollBehavior) => {
+    getScrollParents(element).forEach((parent) => {
+        const parentRect = parent.getBoundingClientRect();
+        const rect = element.getBoundingClientRect();
+
+        if (rect.top < parentRect.top || rect.bottom > parentRect.bottom) {
+            parent.scrollTo({ top: parent.scrollTop + rect.top - parentRect.top - offset, behavior });
+        }
+        if (rect.left < parentRect.left || rect.right > parentRect.right) {
+            parent.scrollTo({ left: parent.scrollLeft + rect.left - parentRect.left - offset, behavior });
+        }
+    });
+
+    const rect = element.getBoundingClientRect();
+    const frame = getFrameElement(element);
+    const view = getView(element);
+    const viewport = frame
+        ? { top: 0, left: 0, width: view.innerWidth, height: view.innerHeight }
+        : getViewportBounds();
+    if (rect.top < viewport.top + offset || rect.bottom > viewport.top + viewport.height) {
+        view.scrollTo({ top: rect.top + view.scrollY - viewport.top - offset, behavior });
+    }
+    // Then bring the frame itself into view in the page around it
+    if (frame) {
+        scrollIntoView(frame, offset, behavior);
+    }
+};
+
+interface TrackPositionOptions {
+    targets: HTMLElement[];
+    tooltip: HTMLElement | null;
+    onUpdate: () => void;
+    onVisibilityChange: (visible: boolean) => void;
+}
+
+const getLayoutKey = (elements: HTMLElement[]) => {
+    const viewport = getViewportBounds();
+    return [
+        `${viewport.top},${viewport.left},${viewport.width},${viewport.height}`,
+        ...elements.map((element) => {
+            const { top, left, width, height } = getElementRect(element);
+            return `${top},${left},${width},${height}`;
+        }),
+    ].join('|');
+};
+
+const ANIMATION_START_EVENTS = ['transitionrun', 'animationstart'];
+const ANIMATION_END_EVENTS = ['transitionend', 'transitioncancel', 'animationend', 'animationcancel'];
+
+export const trackPosition = ({ targets, tooltip, onUpdate, onVisibilityChange }: TrackPositionOptions) => {
+    const observed = tooltip ? [...targets, tooltip] : targets;
+    const views = getFrameWindows(observed);
+    let lastKey = getLayoutKey(observed);
+    let frame = 0;
+    let animations = 0;
+
+    // Observers and events only schedule a check, so a burst of them costs one measurement per frame
+    const check = () => {
+        frame = 0;
+        const key = getLayoutKey(observed);
+        if (key !== lastKey) {
+            lastKey = key;
+            onUpdate();
+        }
+        if (animations > 0) {
+            scheduleCheck();
+        }
+    };
+    const scheduleCheck = () => {
+        if (!frame) {
+            frame = requestAnimationFrame(check);
+        }
+    };
+
+    const resizeObserver = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(scheduleCheck) : null;
+    observed.forEach((element) => resizeObserver?.observe(element));
+
+    // Content loading elsewhere on the page can move the target without resizing it
+    const mutationObserver = typeof MutationObserver !== 'undefined' ? new MutationObserver(scheduleCheck) : null;
+    views.forEach((view) =>
+        mutationObserver?.observe(view.document.body, {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            characterData: true,
+        })
+    );
+
+    const visibility = new Map<Element, boolean>();
+    const intersectionObserver =
+        typeof IntersectionObserver !== 'undefined'
+            ? new IntersectionObserver((entries) => {
+                  entries.forEach((entry) => visibility.set(entry.target, entry.isIntersecting));
+                  onVisibilityChange(targets.some((target) => visibility.get(target) !== false));
+                  scheduleCheck();
+              })
+            : null;
+    targets.forEach((target) => intersectionObserver?.observe(target));
+
+    // Follow a transition or animation frame by frame only while one runs on a target or its ancestors
+    const movesTarget = (event: Event) =>
+        event.target instanceof Node &&
+        targets.some((target) => {
+            for (let current: Element | null = target; current; current = getFrameElement(current)) {
+                if ((event.target as Node).contains(current)) return true;
+            }
+            return false;
+        });
+    const handleAnimationStart = (event: Event) => {
+        if (!movesTarget(event)) return;
+        animations += 1;
+        scheduleCheck();
+    };
+    const handleAnimationEnd = (event: Event) => {
+        if (!movesTarget(event)) return;
+        animations = Math.max(0, animations - 1);
+        scheduleCheck();
+    };
+
+    views.forEach((view) => {
+        ANIMATION_START_EVENTS.forEach((type) => view.document.addEventListener(type, handleAnimationStart, true));
+        ANIMATION_END_EVENTS.forEach((type) => view.document.addEventListener(type, handleAnimationEnd, true));
+        view.addEventListener('resize', scheduleCheck);
+        view.addEventListener('scroll', scheduleCheck, true);
+    });
+    const stopWatchingViewport = watchViewport(scheduleCheck);
+    onUpdate();
+
+    return () => {
+        cancelAnimationFrame(frame);
+        stopWatchingViewport();
+        resizeObserver?.disconnect();
+        mutationObserver?.disconnect();
+        intersectionObserver?.disconnect();
+        views.forEach((view) => {
+            ANIMATION_START_EVENTS.forEach((type) =>
+                view.document.removeEventListener(type, handleAnimationStart, true)
+            );
+            ANIMATION_END_EVENTS.forEach((type) => view.document.removeEventListener(type, handleAnimationEnd, true));
+            view.removeEventListener('resize', scheduleCheck);
+            view.removeEventListener('scroll', scheduleCheck, true);
+        });
+    };
+};